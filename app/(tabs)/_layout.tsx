@@ -148,6 +148,7 @@ export default function AdaptiveLayout() {
       <Tabs.Screen name="settings/security" options={{ href: null }} />
       <Tabs.Screen name="settings/proxies" options={{ href: null }} />
       <Tabs.Screen name="settings/webhooks" options={{ href: null }} />
+      <Tabs.Screen name="settings/rate-limits" options={{ href: null }} />
       <Tabs.Screen name="settings/wallet" options={{ href: null }} />
     </Tabs>
   );
@@ -5,11 +5,12 @@
  * PATH: app/(tabs)/bulk-dispatcher.tsx
  * STATUS: PRODUCTION READY
  * VISUALS: Matches Index/Scraper (Bento Grid / Deep Glass / Neon)
- * LOGIC: Syncs with public.dispatch_bulk_jobs RPC
+ * LOGIC: Syncs with public.dispatch_bulk_jobs RPC (one named batch per
+ *        dispatch, schema taken from a scraper or a saved template)
  * ============================================================================
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -22,7 +23,7 @@ import {
   Platform,
   StatusBar,
 } from 'react-native';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, {
   FadeInDown,
@@ -40,12 +41,25 @@ import {
   Globe,
   List,
   CheckCircle2,
+  FileJson,
+  ChevronRight,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
 import { supabase } from '@/lib/supabase';
+import { kickQueueWorker } from '@/lib/crawler';
 import { useAuth } from '@/context/AuthContext';
 import { MainHeader } from '@/components/ui/MainHeader';
+import { Tables } from '@/supabase/database.types';
+
+type SchemaSource = 'scraper' | 'template';
+type SourceOption = { id: string; name: string };
+type BatchSummary = Pick<
+  Tables<'scraping_batches'>,
+  'id' | 'name' | 'total' | 'created_at'
+>;
+
+const RECENT_BATCHES = 5;
 
 // ----------------------------------------------------------------------------
 // 🧩 BENTO CARD WRAPPER
@@ -69,11 +83,49 @@ const BentoWrapper = ({ children, index = 0, glowColor = '#06b6d4' }: any) => {
 
 export default function BulkDispatcher() {
   const { user } = useAuth();
+  const router = useRouter();
 
   // STATE
   const [urlInput, setUrlInput] = useState('');
+  const [batchName, setBatchName] = useState('');
+  const [source, setSource] = useState<SchemaSource>('scraper');
+  const [scrapers, setScrapers] = useState<SourceOption[]>([]);
+  const [templates, setTemplates] = useState<SourceOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [recentBatches, setRecentBatches] = useState<BatchSummary[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  const loadSources = useCallback(async () => {
+    if (!user) return;
+    const [scraperRes, templateRes, batchRes] = await Promise.all([
+      supabase
+        .from('scrapers')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name'),
+      supabase
+        .from('schema_templates')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name'),
+      supabase
+        .from('scraping_batches')
+        .select('id, name, total, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_BATCHES),
+    ]);
+    setScrapers(scraperRes.data ?? []);
+    setTemplates(templateRes.data ?? []);
+    setRecentBatches(batchRes.data ?? []);
+  }, [user]);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  const options = source === 'scraper' ? scrapers : templates;
+
   /**
    * CLUSTER IGNITION PROTOCOL
    */
@@ -91,6 +143,8 @@ export default function BulkDispatcher() {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return Alert.alert('Protocol Fault', 'No valid HTTPS targets in buffer.');
     }
+    if (!selectedId)
+      return Alert.alert('Schema Fault', 'Select a scraper or template.');
 
     setIsProcessing(true);
     if (Platform.OS !== 'web')
@@ -98,21 +152,28 @@ export default function BulkDispatcher() {
 
     try {
       // 2. RPC HANDSHAKE
-      const { data, error } = await supabase.rpc('dispatch_bulk_jobs', {
-        p_schema: { type: 'auto_semantic' }, // Default schema strategy
-        p_urls: urls,
-        p_user_id: user.id,
-      });
+      const { data: batchId, error } = await supabase.rpc(
+        'dispatch_bulk_jobs',
+        {
+          p_name: batchName.trim(),
+          p_urls: urls,
+          ...(source === 'scraper'
+            ? { p_scraper_id: selectedId }
+            : { p_template_id: selectedId }),
+        },
+      );
 
       if (error) throw error;
+      await kickQueueWorker();
 
       if (Platform.OS !== 'web')
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert(
-        'Cluster Deployed',
-        `Successfully ignited ${data} nodes. Telemetry streaming to Command Center.`,
-      );
       setUrlInput('');
+      setBatchName('');
+      loadSources();
+
+      // 3. HAND OFF TO BATCH TELEMETRY
+      router.push(`/batches/${batchId}`);
     } catch (e: any) {
       console.error('[TITAN-DISPATCH] Fault:', e.message);
       Alert.alert('Deployment Failure', e.message);
@@ -165,6 +226,14 @@ export default function BulkDispatcher() {
             <Text style={styles.cardTitle}>TARGET BUFFER</Text>
           </View>
 
+          <TextInput
+            style={styles.nameInput}
+            placeholder="Batch name (optional)"
+            placeholderTextColor="#475569"
+            value={batchName}
+            onChangeText={setBatchName}
+          />
+
           <TextInput
             style={styles.textArea}
             placeholder={`https://endpoint-alpha.com\nhttps://endpoint-beta.com`}
@@ -198,8 +267,78 @@ export default function BulkDispatcher() {
           </View>
         </BentoWrapper>
 
-        {/* 2. EXECUTION CARD */}
-        <BentoWrapper index={2} glowColor="#0ea5e9">
+        {/* 2. SCHEMA SOURCE CARD */}
+        <BentoWrapper index={2} glowColor="#f59e0b">
+          <View style={styles.cardHeader}>
+            <View
+              style={[
+                styles.iconBox,
+                {
+                  backgroundColor: 'rgba(245, 158, 11, 0.1)',
+                  borderColor: 'rgba(245, 158, 11, 0.2)',
+                },
+              ]}
+            >
+              <FileJson size={18} color="#F59E0B" />
+            </View>
+            <Text style={styles.cardTitle}>EXTRACTION SCHEMA</Text>
+          </View>
+
+          <View style={styles.chipRow}>
+            {(['scraper', 'template'] as const).map((s) => (
+              <TouchableOpacity
+                key={s}
+                onPress={() => {
+                  setSource(s);
+                  setSelectedId(null);
+                }}
+                style={[styles.chip, source === s && styles.chipActive]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    source === s && { color: '#F59E0B' },
+                  ]}
+                >
+                  {s === 'scraper' ? 'FROM SCRAPER' : 'SAVED TEMPLATE'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {options.length === 0 ? (
+            <Text style={styles.helperText}>
+              {source === 'scraper'
+                ? 'No scrapers yet. Deploy one in the Architect first.'
+                : 'No templates yet. Save one from the Architect schema card.'}
+            </Text>
+          ) : (
+            <View style={[styles.chipRow, { marginBottom: 0 }]}>
+              {options.map((o) => (
+                <TouchableOpacity
+                  key={o.id}
+                  onPress={() => setSelectedId(o.id)}
+                  style={[
+                    styles.chip,
+                    selectedId === o.id && styles.chipActive,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selectedId === o.id && { color: '#F59E0B' },
+                    ]}
+                  >
+                    {o.name.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </BentoWrapper>
+
+        {/* 3. EXECUTION CARD */}
+        <BentoWrapper index={3} glowColor="#0ea5e9">
           <View style={styles.cardHeader}>
             <View
               style={[
@@ -223,10 +362,11 @@ export default function BulkDispatcher() {
           <TouchableOpacity
             style={[
               styles.igniteBtn,
-              (isProcessing || nodeCount === 0) && styles.disabledBtn,
+              (isProcessing || nodeCount === 0 || !selectedId) &&
+                styles.disabledBtn,
             ]}
             onPress={handleBulkIgnition}
-            disabled={isProcessing || nodeCount === 0}
+            disabled={isProcessing || nodeCount === 0 || !selectedId}
           >
             {isProcessing ? (
               <ActivityIndicator color="#020617" />
@@ -241,6 +381,44 @@ export default function BulkDispatcher() {
           </TouchableOpacity>
         </BentoWrapper>
 
+        {/* 4. RECENT BATCHES */}
+        {recentBatches.length > 0 && (
+          <BentoWrapper index={4} glowColor="#4fd1c7">
+            <View style={styles.cardHeader}>
+              <View
+                style={[
+                  styles.iconBox,
+                  {
+                    backgroundColor: 'rgba(79, 209, 199, 0.1)',
+                    borderColor: 'rgba(79, 209, 199, 0.2)',
+                  },
+                ]}
+              >
+                <Terminal size={18} color="#4FD1C7" />
+              </View>
+              <Text style={styles.cardTitle}>RECENT BATCHES</Text>
+            </View>
+
+            {recentBatches.map((b) => (
+              <TouchableOpacity
+                key={b.id}
+                onPress={() => router.push(`/batches/${b.id}`)}
+                style={styles.batchRow}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.batchName} numberOfLines={1}>
+                    {b.name}
+                  </Text>
+                  <Text style={styles.batchMeta}>
+                    {b.total} NODES · {new Date(b.created_at).toLocaleString()}
+                  </Text>
+                </View>
+                <ChevronRight size={16} color="#334155" />
+              </TouchableOpacity>
+            ))}
+          </BentoWrapper>
+        )}
+
         <View style={{ height: 40 }} />
       </ScrollView>
     </View>
@@ -303,6 +481,16 @@ const styles = StyleSheet.create({
   },
 
   // INPUT
+  nameInput: {
+    backgroundColor: 'rgba(2, 6, 23, 0.5)',
+    borderRadius: 16,
+    padding: 16,
+    color: '#E2E8F0',
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    marginBottom: 12,
+  },
   textArea: {
     minHeight: 200,
     backgroundColor: 'rgba(2, 6, 23, 0.5)',
@@ -363,4 +551,47 @@ const styles = StyleSheet.create({
     fontSize: 14,
     letterSpacing: 1,
   },
+
+  // SCHEMA SOURCE
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderColor: 'rgba(245, 158, 11, 0.4)',
+  },
+  chipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+
+  // RECENT BATCHES
+  batchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.05)',
+  },
+  batchName: { color: 'white', fontSize: 13, fontWeight: '800' },
+  batchMeta: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
 });
@@ -28,8 +28,6 @@ import { Stack, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, {
   FadeInDown,
-  SlideInRight,
-  Layout,
   useSharedValue,
   useAnimatedStyle,
   withSpring,
@@ -38,28 +36,92 @@ import Animated, {
 import {
   Globe,
   Zap,
-  Plus,
-  Trash2,
   Cpu,
   ArrowRight,
   Sparkles,
   Layers,
+  BookmarkPlus,
   Database as DbIcon,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
 // INTERNAL INFRASTRUCTURE
 import { supabase } from '@/lib/supabase';
+import { kickQueueWorker } from '@/lib/crawler';
 import { useAuth } from '@/context/AuthContext';
 import { MainHeader } from '@/components/ui/MainHeader';
 import { TablesInsert } from '@/supabase/database.types';
-
-// --- TYPES ---
-interface SchemaField {
-  id: string;
-  key: string;
-  description: string;
-}
+import {
+  SchemaBuilder,
+  SchemaEntry,
+  SchemaField,
+  fieldsToSchema,
+} from '@/components/scraper/SchemaBuilder';
+import {
+  PaginationEditor,
+  PaginationSpec,
+  validatePagination,
+} from '@/components/scraper/PaginationEditor';
+import { CrawlEditor, CrawlSpec } from '@/components/scraper/CrawlEditor';
+import { RetryEditor, RetrySpec } from '@/components/scraper/RetryEditor';
+import {
+  TimeoutEditor,
+  TimeoutSpec,
+} from '@/components/scraper/TimeoutEditor';
+import {
+  ScheduleEditor,
+  ScheduleSpec,
+  scheduleNextRun,
+  validateSchedule,
+} from '@/components/scraper/ScheduleEditor';
+import {
+  RequestEditor,
+  RequestSpec,
+  validateRequest,
+} from '@/components/scraper/RequestEditor';
+import {
+  RenderEditor,
+  RenderSpec,
+  browserEngineType,
+} from '@/components/scraper/RenderEditor';
+import {
+  ActionsEditor,
+  ActionSpec,
+  validateActions,
+} from '@/components/scraper/ActionsEditor';
+
+// --- INFERENCE ENGINES (resolved server-side by _shared/llm) ---
+const ENGINES = [
+  { value: 'gemini-1.5-pro', label: 'GEMINI' },
+  { value: 'openai', label: 'OPENAI-COMPAT' },
+  { value: 'fixture', label: 'FIXTURE' },
+] as const;
+
+// --- SOURCE FORMATS (parsed server-side by scrape-engine/sources.ts) ---
+const SOURCE_FORMATS = [
+  { value: 'auto', label: 'AUTO' },
+  { value: 'html', label: 'HTML' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xml', label: 'XML / RSS' },
+  { value: 'csv', label: 'CSV' },
+] as const;
+
+// --- DEFAULT BLUEPRINT ---
+const DEFAULT_FIELDS: SchemaField[] = [
+  {
+    id: '1',
+    key: 'product_name',
+    description: 'The main title of the product',
+    type: 'string',
+    required: true,
+  },
+  {
+    id: '2',
+    key: 'price',
+    description: 'Current price value',
+    type: 'number',
+  },
+];
 
 // ----------------------------------------------------------------------------
 // 🧩 SHARED COMPONENT: BENTO FORM CARD (Matches Index.tsx)
@@ -129,37 +191,40 @@ export default function CreateNodeScreen() {
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
   const [runImmediately, setRunImmediately] = useState(true);
+  const [engineType, setEngineType] = useState<string>(ENGINES[0].value);
+  const [sourceFormat, setSourceFormat] = useState<string>('auto');
+  const [pagination, setPagination] = useState<PaginationSpec | null>(null);
+  const [crawl, setCrawl] = useState<CrawlSpec | null>(null);
+  const [ignoreRobots, setIgnoreRobots] = useState(false);
+  const [retryPolicy, setRetryPolicy] = useState<RetrySpec | null>(null);
+  const [timeouts, setTimeouts] = useState<TimeoutSpec | null>(null);
+  const [render, setRender] = useState<RenderSpec | null>(null);
+  const [actions, setActions] = useState<ActionSpec[]>([]);
+  const [snapshots, setSnapshots] = useState(false);
+  const [requestProfile, setRequestProfile] = useState<RequestSpec | null>(
+    null
+  );
+  const [schedule, setSchedule] = useState<ScheduleSpec | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
-  const [fields, setFields] = useState<SchemaField[]>([
-    {
-      id: '1',
-      key: 'product_name',
-      description: 'The main title of the product',
-    },
-    { id: '2', key: 'price', description: 'Current price value' },
-  ]);
+  const [schemaJson, setSchemaJson] = useState<Record<string, SchemaEntry>>(
+    () => fieldsToSchema(DEFAULT_FIELDS),
+  );
 
   // ACTIONS
-  const handleAddField = () => {
-    setFields((p) => [
-      ...p,
-      { id: Date.now().toString(), key: '', description: '' },
-    ]);
-    if (Platform.OS !== 'web') Haptics.selectionAsync();
-  };
-
-  const handleRemoveField = (id: string) => {
-    setFields((p) => p.filter((f) => f.id !== id));
-    if (Platform.OS !== 'web')
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  };
+  // Templates are reusable from the Bulk Dispatcher; named after the node.
+  const handleSaveTemplate = async () => {
+    if (!name.trim())
+      return Alert.alert('Missing Data', 'Name the node to name the template.');
+    if (Object.keys(schemaJson).length === 0)
+      return Alert.alert('Missing Schema', 'Define at least one data point.');
+    if (!user) return;
 
-  const handleFieldChange = (
-    id: string,
-    prop: keyof SchemaField,
-    value: string,
-  ) => {
-    setFields((p) => p.map((f) => (f.id === id ? { ...f, [prop]: value } : f)));
+    const { error } = await supabase.from('schema_templates').upsert(
+      { name: name.trim(), schema: schemaJson, user_id: user.id },
+      { onConflict: 'user_id,name' },
+    );
+    if (error) return Alert.alert('Template Failed', error.message);
+    Alert.alert('Template Saved', `Schema saved as "${name.trim()}".`);
   };
 
   const handleDeploy = async () => {
@@ -167,36 +232,59 @@ export default function CreateNodeScreen() {
       return Alert.alert('Missing Data', 'Designation and URL required.');
     if (!url.startsWith('http'))
       return Alert.alert('Protocol Error', 'HTTPS required.');
+    if (Object.keys(schemaJson).length === 0)
+      return Alert.alert('Missing Schema', 'Define at least one data point.');
+    const paginationError = validatePagination(pagination);
+    if (paginationError) return Alert.alert('Pagination', paginationError);
+    const actionsError = render ? validateActions(actions) : null;
+    if (actionsError) return Alert.alert('Interaction Script', actionsError);
+    const requestError = validateRequest(requestProfile);
+    if (requestError) return Alert.alert('Request Profile', requestError);
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) return Alert.alert('Schedule', scheduleError);
     if (!user) return;
 
     setIsDeploying(true);
     try {
-      // 1. Build Schema
-      const schemaJson: Record<string, string> = {};
-      fields.forEach((f) => {
-        if (f.key) schemaJson[f.key] = f.description;
-      });
-
-      // 2. Insert Scraper (Definition)
-      const { error: scraperError } = await supabase.from('scrapers').insert({
-        name: name.trim(),
-        target_url: url.trim(),
-        extraction_schema: schemaJson,
-        user_id: user.id,
-        status: 'active',
-        engine_type: 'gemini-1.5-pro',
-      });
+      // 1. Insert Scraper (Definition)
+      const { data: scraper, error: scraperError } = await supabase
+        .from('scrapers')
+        .insert({
+          name: name.trim(),
+          target_url: url.trim(),
+          extraction_schema: schemaJson,
+          user_id: user.id,
+          status: 'active',
+          engine_type: render ? browserEngineType(engineType) : engineType,
+          render,
+          // Steps only run in the browser engine
+          actions: render ? actions : [],
+          pagination,
+          crawl,
+          ignore_robots: ignoreRobots,
+          retry_policy: retryPolicy,
+          timeouts,
+          snapshots,
+          request_profile: requestProfile,
+          source_format: sourceFormat,
+          schedule,
+          next_run_at: scheduleNextRun(schedule)?.toISOString() ?? null,
+        })
+        .select('id')
+        .single();
 
       if (scraperError) throw scraperError;
 
-      // 3. (Optional) Run Job Immediately
+      // 2. (Optional) Run Job Immediately
       if (runImmediately) {
         await supabase.from('scraping_jobs').insert({
           url: url.trim(),
           status: 'pending',
           target_schema: schemaJson,
           user_id: user.id,
+          scraper_id: scraper.id,
         });
+        await kickQueueWorker();
       }
 
       if (Platform.OS !== 'web')
@@ -265,47 +353,25 @@ export default function CreateNodeScreen() {
           icon={Sparkles}
           glowColor="#a855f7"
         >
-          <Text style={styles.helper}>Define AI extraction points.</Text>
-
-          <View style={{ gap: 12 }}>
-            {fields.map((field, i) => (
-              <Animated.View
-                key={field.id}
-                entering={SlideInRight.delay(i * 50)}
-                layout={Layout.springify()}
-                style={styles.fieldRow}
-              >
-                <View style={{ flex: 1, gap: 8 }}>
-                  <TextInput
-                    style={styles.schemaInputKey}
-                    value={field.key}
-                    onChangeText={(v) => handleFieldChange(field.id, 'key', v)}
-                    placeholder="Key (e.g. price)"
-                    placeholderTextColor="#475569"
-                  />
-                  <TextInput
-                    style={styles.schemaInputDesc}
-                    value={field.description}
-                    onChangeText={(v) =>
-                      handleFieldChange(field.id, 'description', v)
-                    }
-                    placeholder="Context for AI..."
-                    placeholderTextColor="#475569"
-                  />
-                </View>
-                <TouchableOpacity
-                  onPress={() => handleRemoveField(field.id)}
-                  style={styles.deleteBtn}
-                >
-                  <Trash2 size={18} color="#EF4444" />
-                </TouchableOpacity>
-              </Animated.View>
-            ))}
-          </View>
+          <Text style={styles.helper}>
+            Define AI extraction points. Fields with a CSS selector skip the AI
+            and fall back to it only when the selector matches nothing; for
+            JSON, XML and CSV sources a data path does the same. Use OBJECT and
+            ARRAY fields for nested records such as product lists.
+          </Text>
+
+          <SchemaBuilder
+            embedded
+            initialFields={DEFAULT_FIELDS}
+            onSchemaChange={setSchemaJson}
+          />
 
-          <TouchableOpacity onPress={handleAddField} style={styles.addBtn}>
-            <Plus size={16} color="#A855F7" />
-            <Text style={styles.addText}>ADD DATA POINT</Text>
+          <TouchableOpacity
+            onPress={handleSaveTemplate}
+            style={styles.templateBtn}
+          >
+            <BookmarkPlus size={14} color="#A855F7" />
+            <Text style={styles.templateText}>SAVE AS TEMPLATE</Text>
           </TouchableOpacity>
         </BentoCard>
 
@@ -316,6 +382,127 @@ export default function CreateNodeScreen() {
           icon={Zap}
           glowColor="#F59E0B"
         >
+          <Text style={styles.label}>INFERENCE ENGINE</Text>
+          <View style={styles.engineRow}>
+            {ENGINES.map((engine) => (
+              <TouchableOpacity
+                key={engine.value}
+                onPress={() => setEngineType(engine.value)}
+                style={[
+                  styles.engineChip,
+                  engineType === engine.value && styles.engineChipActive,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.engineChipText,
+                    engineType === engine.value && { color: '#F59E0B' },
+                  ]}
+                >
+                  {engine.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.label, { marginTop: 24 }]}>SOURCE FORMAT</Text>
+          <View style={styles.engineRow}>
+            {SOURCE_FORMATS.map((format) => (
+              <TouchableOpacity
+                key={format.value}
+                onPress={() => setSourceFormat(format.value)}
+                style={[
+                  styles.engineChip,
+                  sourceFormat === format.value && styles.engineChipActive,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.engineChipText,
+                    sourceFormat === format.value && { color: '#F59E0B' },
+                  ]}
+                >
+                  {format.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.divider} />
+
+          <RenderEditor value={render} onChange={setRender} />
+
+          {render && (
+            <>
+              <Text style={[styles.label, { marginTop: 24 }]}>
+                INTERACTION SCRIPT
+              </Text>
+              <ActionsEditor value={actions} onChange={setActions} />
+            </>
+          )}
+
+          <View style={styles.divider} />
+
+          <RequestEditor value={requestProfile} onChange={setRequestProfile} />
+
+          <View style={styles.divider} />
+
+          <Text style={styles.label}>PAGINATION</Text>
+          <PaginationEditor value={pagination} onChange={setPagination} />
+
+          <View style={styles.divider} />
+
+          <CrawlEditor value={crawl} onChange={setCrawl} />
+
+          <View style={styles.divider} />
+
+          <RetryEditor value={retryPolicy} onChange={setRetryPolicy} />
+
+          <View style={styles.divider} />
+
+          <TimeoutEditor value={timeouts} onChange={setTimeouts} />
+
+          <View style={styles.divider} />
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1, marginRight: 12 }}>
+              <Text style={styles.switchTitle}>PAGE SNAPSHOTS</Text>
+              <Text style={styles.switchSub}>
+                Store the HTML of each page (and a screenshot in browser mode)
+              </Text>
+            </View>
+            <Switch
+              value={snapshots}
+              onValueChange={setSnapshots}
+              trackColor={{ false: '#1e293b', true: 'rgba(79, 209, 199, 0.3)' }}
+              thumbColor={snapshots ? '#4FD1C7' : '#64748b'}
+            />
+          </View>
+
+          <View style={styles.divider} />
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1, marginRight: 12 }}>
+              <Text style={styles.switchTitle}>ROBOTS.TXT OVERRIDE</Text>
+              <Text style={styles.switchSub}>
+                Only with written permission from the site owner. Every
+                override is recorded in the logs.
+              </Text>
+            </View>
+            <Switch
+              value={ignoreRobots}
+              onValueChange={setIgnoreRobots}
+              trackColor={{ false: '#1e293b', true: 'rgba(232, 121, 249, 0.3)' }}
+              thumbColor={ignoreRobots ? '#E879F9' : '#64748b'}
+            />
+          </View>
+
+          <View style={styles.divider} />
+
+          <ScheduleEditor value={schedule} onChange={setSchedule} />
+
+          <View style={styles.divider} />
+
           <View style={styles.switchRow}>
             <View>
               <Text style={styles.switchTitle}>IMMEDIATE IGNITION</Text>
@@ -437,55 +624,43 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
   },
   helper: { color: '#94a3b8', fontSize: 12, marginBottom: 16 },
-
-  // SCHEMA BUILDER
-  fieldRow: { flexDirection: 'row', gap: 12, alignItems: 'flex-start' },
-  schemaInputKey: {
-    backgroundColor: 'rgba(168, 85, 247, 0.1)',
-    borderWidth: 1,
-    borderColor: 'rgba(168, 85, 247, 0.2)',
+  templateBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
     borderRadius: 12,
-    padding: 12,
-    color: '#D8B4FE',
-    fontWeight: '700',
-    fontSize: 12,
-  },
-  schemaInputDesc: {
-    backgroundColor: 'rgba(2, 6, 23, 0.5)',
     borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.05)',
-    borderRadius: 12,
-    padding: 12,
-    color: '#94a3b8',
-    fontSize: 12,
+    borderColor: 'rgba(168, 85, 247, 0.3)',
+    backgroundColor: 'rgba(168, 85, 247, 0.1)',
   },
-  deleteBtn: {
-    height: '100%',
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: 'rgba(239, 68, 68, 0.1)',
-    borderRadius: 12,
+  templateText: {
+    color: '#A855F7',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+
+  // ENGINE SELECTOR
+  engineRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  engineChip: {
     paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
     borderWidth: 1,
-    borderColor: 'rgba(239, 68, 68, 0.2)',
+    borderColor: 'rgba(255,255,255,0.08)',
   },
-  addBtn: {
-    marginTop: 16,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 8,
-    padding: 14,
-    borderRadius: 16,
-    borderWidth: 1,
-    borderColor: 'rgba(168, 85, 247, 0.3)',
-    borderStyle: 'dashed',
-    backgroundColor: 'rgba(168, 85, 247, 0.05)',
+  engineChipActive: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderColor: 'rgba(245, 158, 11, 0.4)',
   },
-  addText: {
-    color: '#D8B4FE',
-    fontWeight: '800',
-    fontSize: 11,
+  engineChipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
     letterSpacing: 1,
   },
 
@@ -39,6 +39,7 @@ import {
   Code,
   Activity,
   Filter,
+  ShieldBan,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
@@ -48,7 +49,7 @@ import { Database } from '@/supabase/database.types';
 
 type LogItem = Database['public']['Tables']['scraping_logs']['Row'];
 
-const FILTER_TABS = ['ALL', 'ERROR', 'WARN', 'INFO'];
+const FILTER_TABS = ['ALL', 'ERROR', 'BLOCKED', 'WARN', 'INFO'];
 
 // ----------------------------------------------------------------------------
 // 🧩 COMPONENT: BENTO LOG CARD (MATCHING INDEX.TSX STYLE)
@@ -59,10 +60,14 @@ const BentoLogCard = ({ item, index }: { item: LogItem; index: number }) => {
 
   const isError = item.level === 'error';
   const isWarn = item.level === 'warn';
+  // Refused by policy (robots.txt), not a crash
+  const isBlocked = item.level === 'blocked';
+  // Failure class set by scrape-engine (network, http, ai_parse, ...)
+  const errorClass = (item.metadata as { error_class?: string } | null)?.error_class;
   
   // Dynamic Styling based on Level
-  const glowColor = isError ? '#EF4444' : isWarn ? '#F59E0B' : '#10B981';
-  const Icon = isError ? AlertTriangle : isWarn ? Activity : CheckCircle2;
+  const glowColor = isError ? '#EF4444' : isBlocked ? '#E879F9' : isWarn ? '#F59E0B' : '#10B981';
+  const Icon = isError ? AlertTriangle : isBlocked ? ShieldBan : isWarn ? Activity : CheckCircle2;
 
   const animatedStyle = useAnimatedStyle(() => ({ transform: [{ scale: scale.value }] }));
   const glowStyle = useAnimatedStyle(() => ({ opacity: glowOpacity.value }));
@@ -132,6 +137,12 @@ const BentoLogCard = ({ item, index }: { item: LogItem; index: number }) => {
               <Text style={styles.metaText}>NODE: {item.scraper_id.slice(0, 6)}</Text>
             </View>
           )}
+          {errorClass && (
+            <View style={styles.metaBadge}>
+              <AlertTriangle size={10} color="#475569" />
+              <Text style={styles.metaText}>CLASS: {errorClass.toUpperCase()}</Text>
+            </View>
+          )}
         </View>
       </TouchableOpacity>
     </Animated.View>
@@ -20,7 +20,7 @@ import {
   StatusBar,
   Platform,
 } from 'react-native';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, {
   FadeInDown,
@@ -40,13 +40,21 @@ import {
   Cpu,
   Server,
   Code,
+  Clock,
+  Pause,
+  History,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
 import { supabase } from '@/lib/supabase';
+import { kickQueueWorker } from '@/lib/crawler';
 import { useAuth } from '@/context/AuthContext';
 import { MainHeader } from '@/components/ui/MainHeader';
 import { Tables } from '@/supabase/database.types';
+import {
+  formatRunTime,
+  scheduleNextRun,
+} from '@/components/scraper/ScheduleEditor';
 
 type Scraper = Tables<'scrapers'>;
 
@@ -58,11 +66,15 @@ const ScraperCard = ({
   index,
   onRun,
   isRunning,
+  onToggleSchedule,
+  onOpenHistory,
 }: {
   item: Scraper;
   index: number;
   onRun: () => void;
   isRunning: boolean;
+  onToggleSchedule: () => void;
+  onOpenHistory: () => void;
 }) => {
   const scale = useSharedValue(1);
   const glowOpacity = useSharedValue(0);
@@ -84,6 +96,13 @@ const ScraperCard = ({
     glowOpacity.value = withTiming(0);
   };
 
+  const paused = item.status !== 'active';
+  const nextRunLabel = paused
+    ? 'PAUSED'
+    : item.next_run_at
+    ? formatRunTime(new Date(item.next_run_at)).toUpperCase()
+    : 'NEVER';
+
   return (
     <Animated.View
       entering={FadeInDown.delay(index * 100).springify()}
@@ -92,7 +111,7 @@ const ScraperCard = ({
     >
       <TouchableOpacity
         activeOpacity={1}
-        onPress={() => {}} // Card press logic if needed
+        onPress={onOpenHistory}
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         style={styles.cardInner}
@@ -158,6 +177,42 @@ const ScraperCard = ({
           </Text>
         </View>
 
+        {/* Last Run (tap the card for the full history) */}
+        <View style={styles.lastRunRow}>
+          <History size={12} color="#64748B" />
+          <Text style={styles.lastRunText} numberOfLines={1}>
+            LAST RUN:{' '}
+            {item.last_run_status
+              ? `${item.last_run_status.toUpperCase()} · ${new Date(
+                  item.last_run_at ?? ''
+                ).toLocaleString()}`
+              : 'NEVER'}
+          </Text>
+        </View>
+
+        {/* Schedule */}
+        {!!item.schedule && (
+          <View style={styles.scheduleRow}>
+            <Clock size={12} color="#A78BFA" />
+            <Text style={styles.scheduleText} numberOfLines={1}>
+              NEXT RUN: {nextRunLabel}
+            </Text>
+            <TouchableOpacity
+              onPress={onToggleSchedule}
+              style={styles.scheduleBtn}
+            >
+              {paused ? (
+                <Play size={12} color="#A78BFA" />
+              ) : (
+                <Pause size={12} color="#A78BFA" />
+              )}
+              <Text style={styles.scheduleBtnText}>
+                {paused ? 'RESUME' : 'PAUSE'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Action Bar */}
         <TouchableOpacity
           onPress={onRun}
@@ -183,6 +238,7 @@ const ScraperCard = ({
 // ----------------------------------------------------------------------------
 export default function ScraperTerminal() {
   const { user } = useAuth();
+  const router = useRouter();
   const [scrapers, setScrapers] = useState<Scraper[]>([]);
   const [ignitingId, setIgnitingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -224,37 +280,21 @@ export default function ScraperTerminal() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
 
     try {
-      // 1. Create Job Entry First
-      const { data: job, error: jobError } = await supabase
-        .from('scraping_jobs')
-        .insert({
-          url: scraper.target_url,
-          status: 'pending',
-          target_schema: scraper.extraction_schema,
-          user_id: user?.id!,
-        })
-        .select()
-        .single();
+      // 1. Enqueue Job (the queue worker applies the concurrency limit)
+      const { error: jobError } = await supabase.from('scraping_jobs').insert({
+        url: scraper.target_url,
+        status: 'pending',
+        target_schema: scraper.extraction_schema,
+        user_id: user?.id!,
+        scraper_id: scraper.id,
+      });
 
       if (jobError) throw jobError;
 
-      // 2. Trigger Edge Function
-      const { error: fnError } = await supabase.functions.invoke(
-        'scrape-engine',
-        {
-          body: {
-            job_id: job.id,
-            scraper_id: scraper.id,
-            url: scraper.target_url,
-            target_schema: scraper.extraction_schema,
-            operator_id: user?.id,
-          },
-        },
-      );
-
-      if (fnError) throw fnError;
-
-      Alert.alert('Ignition Successful', `Node ${scraper.name} is harvesting.`);
+      // 2. Wake The Worker
+      await kickQueueWorker();
+
+      Alert.alert('Ignition Successful', `Node ${scraper.name} is queued.`);
       if (Platform.OS !== 'web')
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (e: any) {
@@ -266,6 +306,30 @@ export default function ScraperTerminal() {
     }
   };
 
+  // Paused scrapers are skipped by the scheduler; resuming starts from now.
+  const toggleSchedule = async (scraper: Scraper) => {
+    const resume = scraper.status !== 'active';
+    try {
+      const { error } = await supabase
+        .from('scrapers')
+        .update(
+          resume
+            ? {
+                status: 'active',
+                next_run_at:
+                  scheduleNextRun(scraper.schedule)?.toISOString() ?? null,
+              }
+            : { status: 'paused' }
+        )
+        .eq('id', scraper.id);
+
+      if (error) throw error;
+      if (Platform.OS !== 'web') Haptics.selectionAsync();
+    } catch (e: any) {
+      Alert.alert('Schedule Fault', e.message);
+    }
+  };
+
   return (
     <View style={styles.root}>
       <Stack.Screen options={{ headerShown: false }} />
@@ -325,6 +389,8 @@ export default function ScraperTerminal() {
               index={idx}
               onRun={() => runExtraction(item)}
               isRunning={ignitingId === item.id}
+              onToggleSchedule={() => toggleSchedule(item)}
+              onOpenHistory={() => router.push(`/runs/${item.id}`)}
             />
           ))
         )}
@@ -448,6 +514,57 @@ const styles = StyleSheet.create({
     flex: 1,
   },
 
+  lastRunRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 20,
+    paddingHorizontal: 4,
+  },
+  lastRunText: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '800',
+    letterSpacing: 1,
+    flex: 1,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingLeft: 12,
+    paddingRight: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(167, 139, 250, 0.05)',
+    marginTop: -8,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(167, 139, 250, 0.15)',
+  },
+  scheduleText: {
+    color: '#A78BFA',
+    fontSize: 11,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    flex: 1,
+  },
+  scheduleBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: 'rgba(167, 139, 250, 0.1)',
+  },
+  scheduleBtnText: {
+    color: '#A78BFA',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+
   actionBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -35,6 +35,7 @@ import {
   Zap,
   Globe,
   Bell,
+  Gauge,
 } from 'lucide-react-native';
 
 import { MainHeader } from '@/components/ui/MainHeader';
@@ -197,6 +198,29 @@ export default function SettingsIndex() {
               </View>
               <ChevronRight size={18} color="#475569" />
             </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/(tabs)/settings/rate-limits')}
+            >
+              <View
+                style={[
+                  styles.iconBox,
+                  { backgroundColor: 'rgba(245, 158, 11, 0.1)' },
+                ]}
+              >
+                <Gauge size={20} color="#F59E0B" />
+              </View>
+              <View style={styles.itemTextContainer}>
+                <Text style={styles.itemLabel}>Rate Limits</Text>
+                <Text style={styles.itemSub}>
+                  Per-Domain Politeness Buckets
+                </Text>
+              </View>
+              <ChevronRight size={18} color="#475569" />
+            </TouchableOpacity>
           </GlassCard>
         </View>
 
@@ -0,0 +1,383 @@
+/**
+ * ============================================================================
+ * 🚦 NORTH INTELLIGENCE OS: DOMAIN RATE LIMITS
+ * ============================================================================
+ * PATH: app/(tabs)/settings/rate-limits.tsx
+ * STATUS: PRODUCTION READY
+ * LOGIC: CRUD over public.domain_rate_limits. The Scrape Engine spends one
+ * token per page fetch; jobs that find the bucket empty wait as 'pending'
+ * with a next_attempt_at. Domain '*' sets the default for every host.
+ * Also holds public.queue_limits: how many of the user's jobs the queue
+ * worker runs at once.
+ * ============================================================================
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Gauge, ArrowLeft, Zap, Trash2, Layers } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { MainHeader } from '@/components/ui/MainHeader';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/context/AuthContext';
+import { Database } from '@/supabase/database.types';
+
+type RateLimitRow = Database['public']['Tables']['domain_rate_limits']['Row'];
+
+// Mirrors the engine fallback in take_domain_token()
+const DEFAULT_CAPACITY = 5;
+const DEFAULT_REFILL = 30;
+// Mirrors the fallback in claim_scraping_jobs()
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 50;
+
+export default function RateLimitSettings() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [limits, setLimits] = useState<RateLimitRow[]>([]);
+  const [domain, setDomain] = useState('');
+  const [capacity, setCapacity] = useState(String(DEFAULT_CAPACITY));
+  const [refill, setRefill] = useState(String(DEFAULT_REFILL));
+  const [loading, setLoading] = useState(false);
+  const [concurrency, setConcurrency] = useState(String(DEFAULT_CONCURRENCY));
+
+  // FETCH LIMITS
+  const fetchLimits = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('domain_rate_limits')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('domain');
+    setLimits(data || []);
+
+    const { data: queue } = await supabase
+      .from('queue_limits')
+      .select('max_concurrent')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (queue) setConcurrency(String(queue.max_concurrent));
+  }, [user]);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  // SAVE LIMIT (one row per domain)
+  const handleSave = async () => {
+    const host = domain
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .split('/')[0];
+    const cap = parseInt(capacity, 10);
+    const rate = parseFloat(refill);
+
+    if (!host) return Alert.alert('Missing Domain', "Enter a host or '*'.");
+    if (!(cap > 0) || !(rate > 0))
+      return Alert.alert('Invalid Limit', 'Burst and refill must be positive.');
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.from('domain_rate_limits').upsert(
+        {
+          user_id: user?.id!,
+          domain: host,
+          capacity: cap,
+          refill_per_minute: rate,
+        },
+        { onConflict: 'user_id,domain' }
+      );
+
+      if (error) throw error;
+      setDomain('');
+      fetchLimits();
+    } catch (e: any) {
+      Alert.alert('Sync Error', e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // SAVE CONCURRENCY (one row per user)
+  const handleSaveConcurrency = async () => {
+    const max = parseInt(concurrency, 10);
+    if (!(max >= 1 && max <= MAX_CONCURRENCY))
+      return Alert.alert(
+        'Invalid Limit',
+        `Concurrent jobs must be between 1 and ${MAX_CONCURRENCY}.`
+      );
+
+    const { error } = await supabase.from('queue_limits').upsert(
+      {
+        user_id: user?.id!,
+        max_concurrent: max,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+    if (error) return Alert.alert('Sync Error', error.message);
+    Alert.alert('Saved', `Up to ${max} job(s) will run at once.`);
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from('domain_rate_limits')
+      .delete()
+      .eq('id', id);
+    if (error) return Alert.alert('Sync Error', error.message);
+    setLimits((prev) => prev.filter((l) => l.id !== id));
+  };
+
+  return (
+    <View style={styles.root}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <LinearGradient
+        colors={['#020617', '#0A101F', '#020617']}
+        style={StyleSheet.absoluteFill}
+      />
+      <MainHeader title="Rate Limits" />
+
+      <ScrollView contentContainerStyle={styles.container}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <ArrowLeft size={16} color="white" />
+          <Text style={styles.backText}>RETURN</Text>
+        </TouchableOpacity>
+
+        <Animated.View entering={FadeInDown.delay(50)} style={styles.bentoCard}>
+          <View style={styles.cardHeader}>
+            <View style={styles.iconBox}>
+              <Layers size={18} color="#F59E0B" />
+            </View>
+            <Text style={[styles.cardTitle, { color: '#F59E0B' }]}>
+              JOB CONCURRENCY
+            </Text>
+          </View>
+
+          <Text style={styles.helper}>
+            Queued jobs start as soon as fewer than this many of yours are
+            running. Default: {DEFAULT_CONCURRENCY}.
+          </Text>
+
+          <Text style={styles.label}>CONCURRENT JOBS</Text>
+          <TextInput
+            style={styles.input}
+            value={concurrency}
+            onChangeText={setConcurrency}
+            keyboardType="number-pad"
+          />
+
+          <TouchableOpacity
+            style={styles.saveBtn}
+            onPress={handleSaveConcurrency}
+          >
+            <Zap size={16} color="#020617" fill="#020617" />
+            <Text style={styles.saveText}>SAVE CONCURRENCY</Text>
+          </TouchableOpacity>
+        </Animated.View>
+
+        <Animated.View
+          entering={FadeInDown.delay(100)}
+          style={styles.bentoCard}
+        >
+          <View style={styles.cardHeader}>
+            <View style={styles.iconBox}>
+              <Gauge size={18} color="#F59E0B" />
+            </View>
+            <Text style={[styles.cardTitle, { color: '#F59E0B' }]}>
+              DOMAIN TOKEN BUCKET
+            </Text>
+          </View>
+
+          <Text style={styles.helper}>
+            Each page fetch spends one token. Without a rule, every domain gets{' '}
+            {DEFAULT_CAPACITY} burst tokens refilled at {DEFAULT_REFILL}/min.
+            Use * to change your default.
+          </Text>
+
+          <Text style={styles.label}>DOMAIN</Text>
+          <TextInput
+            style={styles.input}
+            value={domain}
+            onChangeText={setDomain}
+            placeholder="shop.example.com or *"
+            placeholderTextColor="#334155"
+            autoCapitalize="none"
+          />
+
+          <View style={styles.numberRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>BURST</Text>
+              <TextInput
+                style={styles.input}
+                value={capacity}
+                onChangeText={setCapacity}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>REFILL / MIN</Text>
+              <TextInput
+                style={styles.input}
+                value={refill}
+                onChangeText={setRefill}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={styles.saveBtn}
+            onPress={handleSave}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator color="#020617" />
+            ) : (
+              <>
+                <Zap size={16} color="#020617" fill="#020617" />
+                <Text style={styles.saveText}>SAVE LIMIT</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </Animated.View>
+
+        {limits.map((limit, index) => (
+          <Animated.View
+            key={limit.id}
+            entering={FadeInDown.delay(150 + index * 50)}
+            style={styles.limitRow}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={styles.limitDomain}>
+                {limit.domain === '*' ? 'ALL DOMAINS (DEFAULT)' : limit.domain}
+              </Text>
+              <Text style={styles.limitMeta}>
+                BURST {limit.capacity} · {limit.refill_per_minute}/MIN
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => handleDelete(limit.id)}
+              style={styles.deleteBtn}
+            >
+              <Trash2 size={16} color="#F43F5E" />
+            </TouchableOpacity>
+          </Animated.View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1, backgroundColor: '#020617' },
+  container: { padding: 24, paddingBottom: 120 },
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+    opacity: 0.7,
+  },
+  backText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '900',
+    marginLeft: 8,
+    letterSpacing: 2,
+  },
+
+  bentoCard: {
+    borderRadius: 32,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+    padding: 24,
+    marginBottom: 24,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  iconBox: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardTitle: { fontSize: 12, fontWeight: '900', letterSpacing: 1 },
+  helper: { color: '#94a3b8', fontSize: 12, marginBottom: 24 },
+
+  label: {
+    color: '#F59E0B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 2,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#020617',
+    padding: 18,
+    borderRadius: 16,
+    color: 'white',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    marginBottom: 24,
+  },
+  numberRow: { flexDirection: 'row', gap: 12 },
+
+  saveBtn: {
+    backgroundColor: '#F59E0B',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  saveText: {
+    color: '#020617',
+    fontWeight: '900',
+    fontSize: 13,
+    letterSpacing: 1,
+  },
+
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+    padding: 18,
+    marginBottom: 12,
+  },
+  limitDomain: { color: 'white', fontWeight: '800', fontSize: 14 },
+  limitMeta: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+    marginTop: 4,
+  },
+  deleteBtn: {
+    backgroundColor: 'rgba(244, 63, 94, 0.1)',
+    padding: 8,
+    borderRadius: 8,
+  },
+});
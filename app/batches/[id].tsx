@@ -0,0 +1,454 @@
+/**
+ * ============================================================================
+ * 🛰️ NORTH INTELLIGENCE OS: BATCH TELEMETRY
+ * ============================================================================
+ * PATH: app/batches/[id].tsx
+ * Live progress of one bulk dispatch (scraping_batches -> scraping_jobs).
+ * Counts are read per status; the ETA extrapolates the batch's throughput
+ * so far. Tapping a job opens it in the Data Inspector.
+ * ============================================================================
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  ArrowLeft,
+  Layers,
+  FileJson,
+  Ban,
+  ChevronRight,
+  Timer,
+} from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { GlassCard } from '@/components/ui/GlassCard';
+import { MainHeader } from '@/components/ui/MainHeader';
+import { supabase } from '@/lib/supabase';
+import { Enums, Tables } from '@/supabase/database.types';
+
+type Batch = Tables<'scraping_batches'> & {
+  scrapers: { name: string } | null;
+  schema_templates: { name: string } | null;
+};
+type BatchJob = Pick<
+  Tables<'scraping_jobs'>,
+  'id' | 'url' | 'status' | 'attempts' | 'last_run_at'
+>;
+type JobStatus = Enums<'job_status'>;
+
+const JOB_LIMIT = 50;
+// Realtime job events are coalesced into at most one refetch per window.
+const REFRESH_WINDOW_MS = 1000;
+
+const STATUSES: { status: JobStatus; label: string; color: string }[] = [
+  { status: 'pending', label: 'QUEUED', color: '#F59E0B' },
+  { status: 'running', label: 'RUNNING', color: '#38BDF8' },
+  { status: 'completed', label: 'COMPLETED', color: '#10B981' },
+  { status: 'failed', label: 'FAILED', color: '#EF4444' },
+  { status: 'cancelled', label: 'CANCELLED', color: '#64748B' },
+];
+
+const statusColor = (status: string | null) =>
+  STATUSES.find((s) => s.status === status)?.color ?? '#94A3B8';
+
+const formatDuration = (ms: number) => {
+  const s = Math.max(1, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+};
+
+export default function BatchTelemetry() {
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [counts, setCounts] = useState<Partial<Record<JobStatus, number>>>({});
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+
+  const fetchBatch = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const countOf = (status: JobStatus) =>
+        supabase
+          .from('scraping_jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('batch_id', id)
+          .eq('status', status);
+
+      const [batchRes, jobsRes, ...countRes] = await Promise.all([
+        supabase
+          .from('scraping_batches')
+          .select('*, scrapers(name), schema_templates(name)')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('scraping_jobs')
+          .select('id, url, status, attempts, last_run_at')
+          .eq('batch_id', id)
+          .order('last_run_at', { ascending: false, nullsFirst: false })
+          .limit(JOB_LIMIT),
+        ...STATUSES.map((s) => countOf(s.status)),
+      ]);
+
+      if (batchRes.error) throw batchRes.error;
+      if (jobsRes.error) throw jobsRes.error;
+
+      setBatch(batchRes.data as Batch);
+      setJobs(jobsRes.data);
+      setCounts(
+        Object.fromEntries(
+          STATUSES.map((s, i) => [s.status, countRes[i].count ?? 0])
+        )
+      );
+    } catch (e: any) {
+      console.error('[BATCH_TELEMETRY_FAULT]', e.message);
+      Alert.alert('Telemetry Fault', 'Could not load batch.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchBatch();
+    // A running batch emits an event per job transition; each refetch costs 7 queries.
+    let pending: ReturnType<typeof setTimeout> | null = null;
+    const scheduleFetch = () => {
+      if (pending) return;
+      pending = setTimeout(() => {
+        pending = null;
+        fetchBatch();
+      }, REFRESH_WINDOW_MS);
+    };
+    const channel = supabase
+      .channel(`batch-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'scraping_jobs',
+          filter: `batch_id=eq.${id}`,
+        },
+        scheduleFetch
+      )
+      .subscribe();
+    return () => {
+      if (pending) clearTimeout(pending);
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchBatch]);
+
+  const inFlight = (counts.pending ?? 0) + (counts.running ?? 0);
+  const finished =
+    (counts.completed ?? 0) + (counts.failed ?? 0) + (counts.cancelled ?? 0);
+  const total = batch?.total ?? 0;
+  const progress = total ? finished / total : 0;
+
+  // Throughput since dispatch, extrapolated over what is still in flight.
+  const eta = (() => {
+    if (!batch || inFlight === 0) return null;
+    if (finished === 0) return 'ESTIMATING';
+    const elapsed = Date.now() - new Date(batch.created_at).getTime();
+    return `~${formatDuration((elapsed / finished) * inFlight)}`;
+  })();
+
+  const handleCancel = () => {
+    Alert.alert(
+      'Cancel Batch',
+      `Stop ${inFlight} in-flight jobs? Running jobs halt at their next checkpoint.`,
+      [
+        { text: 'Keep Running', style: 'cancel' },
+        {
+          text: 'Cancel Batch',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase.rpc('cancel_scraping_batch', {
+              p_batch_id: id,
+            });
+            if (error) return Alert.alert('Cancel Failed', error.message);
+            fetchBatch();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <ActivityIndicator color="#4FD1C7" size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.root}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <MainHeader title="Batch Telemetry" />
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{ padding: 24, paddingBottom: 120 }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInDown.duration(500)}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backBtn}
+          >
+            <ArrowLeft size={16} color="rgba(255,255,255,0.7)" />
+            <Text style={styles.backText}>RETURN TO DISPATCHER</Text>
+          </TouchableOpacity>
+
+          <GlassCard style={styles.identityCard}>
+            <View style={styles.headerRow}>
+              <View style={styles.iconBox}>
+                <Layers size={20} color="#A855F7" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.nameText} numberOfLines={1}>
+                  {batch?.name ?? 'UNKNOWN BATCH'}
+                </Text>
+                <Text style={styles.subText}>
+                  {total} NODES ·{' '}
+                  {batch ? new Date(batch.created_at).toLocaleString() : '--'}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.sourceRow}>
+              <FileJson size={12} color="#64748B" />
+              <Text style={styles.sourceText} numberOfLines={1}>
+                SCHEMA:{' '}
+                {batch?.scrapers?.name ??
+                  batch?.schema_templates?.name ??
+                  'SOURCE REMOVED'}
+              </Text>
+            </View>
+
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${Math.round(progress * 100)}%` },
+                ]}
+              />
+            </View>
+
+            <View style={styles.etaRow}>
+              <Timer size={12} color="#64748B" />
+              <Text style={styles.sourceText}>
+                {Math.round(progress * 100)}% ·{' '}
+                {eta ? `ETA ${eta}` : 'BATCH SETTLED'}
+              </Text>
+            </View>
+
+            {inFlight > 0 && (
+              <TouchableOpacity onPress={handleCancel} style={styles.cancelBtn}>
+                <Ban size={12} color="#EF4444" />
+                <Text style={styles.cancelText}>CANCEL BATCH</Text>
+              </TouchableOpacity>
+            )}
+          </GlassCard>
+        </Animated.View>
+
+        <Animated.View
+          entering={FadeInDown.delay(100).duration(500)}
+          style={styles.statsRow}
+        >
+          {STATUSES.filter(
+            (s) => s.status !== 'cancelled' || counts.cancelled
+          ).map((s) => (
+            <View key={s.status} style={styles.statBox}>
+              <Text style={[styles.statLabel, { color: s.color }]}>
+                {s.label}
+              </Text>
+              <Text style={styles.statValue}>{counts[s.status] ?? 0}</Text>
+            </View>
+          ))}
+        </Animated.View>
+
+        <Text style={styles.sectionLabel}>
+          JOBS {total > JOB_LIMIT ? `(LATEST ${JOB_LIMIT})` : ''}
+        </Text>
+
+        {jobs.map((job, index) => {
+          const color = statusColor(job.status);
+          return (
+            <Animated.View
+              key={job.id}
+              entering={FadeInDown.delay(150 + index * 30).duration(400)}
+            >
+              <TouchableOpacity
+                onPress={() => router.push(`/details/${job.id}`)}
+                style={styles.jobRow}
+              >
+                <View style={[styles.dot, { backgroundColor: color }]} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.jobUrl} numberOfLines={1}>
+                    {job.url.replace(/(^\w+:|^)\/\//, '')}
+                  </Text>
+                  <Text style={[styles.jobStatus, { color }]}>
+                    {job.status?.toUpperCase() ?? 'UNKNOWN'}
+                    {job.attempts > 1 ? ` · ATTEMPT ${job.attempts}` : ''}
+                  </Text>
+                </View>
+                <ChevronRight size={16} color="#334155" />
+              </TouchableOpacity>
+            </Animated.View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1, backgroundColor: '#020617' },
+  centerContainer: {
+    flex: 1,
+    backgroundColor: '#020617',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    opacity: 0.8,
+  },
+  backText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginLeft: 8,
+  },
+
+  identityCard: { padding: 20, marginBottom: 24 },
+  headerRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 16 },
+  iconBox: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: 'rgba(168, 85, 247, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  nameText: { color: 'white', fontSize: 16, fontWeight: '800' },
+  subText: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
+  sourceRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  sourceText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    marginTop: 16,
+    overflow: 'hidden',
+  },
+  progressFill: { height: 6, borderRadius: 3, backgroundColor: '#4FD1C7' },
+  etaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  cancelBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.3)',
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  cancelText: {
+    color: '#EF4444',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 32,
+  },
+  statBox: {
+    flexGrow: 1,
+    minWidth: 72,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    backgroundColor: 'rgba(255,255,255,0.02)',
+  },
+  statLabel: { fontSize: 9, fontWeight: '900', letterSpacing: 1.5 },
+  statValue: { color: 'white', fontSize: 20, fontWeight: '800', marginTop: 6 },
+
+  sectionLabel: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+  },
+  dot: { width: 8, height: 8, borderRadius: 4 },
+  jobUrl: {
+    color: 'white',
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  jobStatus: {
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+    marginTop: 4,
+  },
+});
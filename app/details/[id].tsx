@@ -35,11 +35,19 @@ import {
   FileJson,
   AlertTriangle,
   Loader2,
+  RotateCcw,
+  Ban,
+  Camera,
 } from 'lucide-react-native';
 import Animated, { FadeInDown, FadeInRight } from 'react-native-reanimated';
 
 // UI INTERNAL IMPORTS
 import { GlassCard } from '@/components/ui/GlassCard';
+import { RecursiveDataNode } from '@/components/scraper/RecursiveDataNode';
+import {
+  SnapshotViewer,
+  snapshotOf,
+} from '@/components/scraper/SnapshotViewer';
 import { MainHeader } from '@/components/ui/MainHeader'; // Consistent Header
 import { supabase } from '@/lib/supabase';
 import { Database as DBTypes } from '@/supabase/database.types';
@@ -47,6 +55,28 @@ import { Database as DBTypes } from '@/supabase/database.types';
 // --- STRICT TYPE DEFINITIONS FROM DB ---
 type JobRow = DBTypes['public']['Tables']['scraping_jobs']['Row'];
 type ExtractedRow = DBTypes['public']['Tables']['extracted_data']['Row'];
+type LogRow = DBTypes['public']['Tables']['scraping_logs']['Row'];
+
+// Failure classes written by scrape-engine into scraping_logs.metadata.error_class
+const ERROR_CLASS_LABELS: Record<string, string> = {
+  network: 'NETWORK',
+  http: 'HTTP STATUS',
+  ai_parse: 'AI PARSE',
+  validation: 'VALIDATION',
+  timeout: 'TIMEOUT',
+  internal: 'ENGINE FAULT',
+};
+
+// Provenance tags written by scrape-engine into extracted_data.metadata.field_sources
+const SOURCE_COLORS: Record<string, string> = {
+  selector: '#10B981',
+  mapped: '#FBBF24',
+  structured: '#38BDF8',
+  ai: '#A855F7',
+  ai_fallback: '#F59E0B',
+};
+// The part of extracted_data.metadata read here
+type PayloadMeta = { field_sources?: Record<string, string> };
 
 export default function DataInspector() {
   // 1. SAFE PARAMETER PARSING
@@ -60,6 +90,8 @@ export default function DataInspector() {
   // 2. STRICT DATABASE TYPING
   const [job, setJob] = useState<JobRow | null>(null);
   const [dataPayloads, setDataPayloads] = useState<ExtractedRow[]>([]);
+  const [failure, setFailure] = useState<LogRow | null>(null);
+  const [view, setView] = useState<'data' | 'snapshot'>('data');
 
   // --- DATA ORCHESTRATION ---
   const fetchNodeDetails = useCallback(async () => {
@@ -88,6 +120,19 @@ export default function DataInspector() {
       if (extractedError) throw extractedError;
       setDataPayloads(extracted || []);
 
+      // C. Latest Failure (only failed jobs carry a classified error)
+      if (jobData.status === 'failed') {
+        const { data: errorLog } = await supabase
+          .from('scraping_logs')
+          .select('*')
+          .eq('job_id', id)
+          .eq('level', 'error')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        setFailure(errorLog);
+      }
+
     } catch (err: any) {
       console.error('[INSPECTOR_FAULT]', err.message);
       Alert.alert('Structural Failure', 'Could not retrieve node data.');
@@ -122,6 +167,27 @@ export default function DataInspector() {
     }
   };
 
+  const handleCancel = () => {
+    Alert.alert(
+      'Cancel Job',
+      'Stop this job? A running engine halts at its next checkpoint.',
+      [
+        { text: 'Keep Running', style: 'cancel' },
+        {
+          text: 'Cancel Job',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase.rpc('cancel_scraping_jobs', {
+              p_job_ids: [id],
+            });
+            if (error) return Alert.alert('Cancel Failed', error.message);
+            fetchNodeDetails();
+          },
+        },
+      ],
+    );
+  };
+
   // --- RENDER HELPERS ---
   const renderStatusBadge = (status: string | null) => {
     const s = status || 'UNKNOWN';
@@ -141,6 +207,14 @@ export default function DataInspector() {
       color = '#38BDF8'; // Sky
       bg = 'rgba(56, 189, 248, 0.1)';
       Icon = Loader2;
+    } else if (s === 'pending') {
+      color = '#F59E0B'; // Amber
+      bg = 'rgba(245, 158, 11, 0.1)';
+      Icon = Clock;
+    } else if (s === 'cancelled') {
+      color = '#64748B'; // Slate
+      bg = 'rgba(100, 116, 139, 0.1)';
+      Icon = Ban;
     }
 
     return (
@@ -151,6 +225,9 @@ export default function DataInspector() {
     );
   };
 
+  const failureClass = (failure?.metadata as { error_class?: string } | null)
+    ?.error_class;
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -202,69 +279,148 @@ export default function DataInspector() {
                   ID: {id?.slice(0, 8).toUpperCase()}
                 </Text>
               </View>
+
+              {!!job && job.attempts > 1 && (
+                <View style={styles.idBadge}>
+                  <RotateCcw size={12} color="rgba(255,255,255,0.4)" />
+                  <Text style={styles.idText}>ATTEMPTS: {job.attempts}</Text>
+                </View>
+              )}
             </View>
+
+            {job?.status === 'pending' && job.next_attempt_at && (
+              <View style={styles.deferRow}>
+                <Clock size={12} color="#F59E0B" />
+                <Text style={styles.deferText}>
+                  DEFERRED UNTIL{' '}
+                  {new Date(job.next_attempt_at).toLocaleTimeString()}
+                </Text>
+              </View>
+            )}
+
+            {(job?.status === 'pending' || job?.status === 'running') && (
+              <TouchableOpacity onPress={handleCancel} style={styles.cancelBtn}>
+                <Ban size={12} color="#EF4444" />
+                <Text style={styles.cancelText}>CANCEL JOB</Text>
+              </TouchableOpacity>
+            )}
           </GlassCard>
         </Animated.View>
 
-        {/* 2. TOOLBAR */}
-        <View style={styles.toolbar}>
-          <View style={styles.toolLeft}>
-            <Database size={14} color="#64748B" />
-            <Text style={styles.toolLabel}>CAPTURED NODES ({dataPayloads.length})</Text>
-          </View>
+        {/* FAILURE REPORT */}
+        {failure && (
+          <Animated.View entering={FadeInDown.delay(100).duration(500)}>
+            <GlassCard style={styles.failureCard}>
+              <View style={styles.failureHeader}>
+                <AlertTriangle size={14} color="#EF4444" />
+                <Text style={styles.failureClass}>
+                  {ERROR_CLASS_LABELS[failureClass ?? ''] ?? 'UNCLASSIFIED'}
+                </Text>
+              </View>
+              <Text style={styles.failureMessage}>{failure.message}</Text>
+            </GlassCard>
+          </Animated.View>
+        )}
 
-          <TouchableOpacity onPress={handleExport} style={styles.exportBtn}>
-            <Share2 size={14} color="#4FD1C7" />
-            <Text style={styles.exportText}>EXPORT JSON</Text>
-          </TouchableOpacity>
-        </View>
-
-        {/* 3. DATA PAYLOADS */}
-        {dataPayloads.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <FileJson size={48} color="#334155" />
-            <Text style={styles.emptyTitle}>AWAITING DATA COMMIT</Text>
-            <Text style={styles.emptySub}>No structured data has been harvested yet.</Text>
+        {/* VIEW TABS (only when pages were snapshotted) */}
+        {dataPayloads.some((p) => snapshotOf(p)) && (
+          <View style={styles.viewTabs}>
+            {(['data', 'snapshot'] as const).map((tab) => (
+              <TouchableOpacity
+                key={tab}
+                onPress={() => setView(tab)}
+                style={[styles.viewTab, view === tab && styles.viewTabActive]}
+              >
+                {tab === 'data' ? (
+                  <Database size={12} color={view === tab ? '#4FD1C7' : '#64748B'} />
+                ) : (
+                  <Camera size={12} color={view === tab ? '#4FD1C7' : '#64748B'} />
+                )}
+                <Text style={[styles.viewTabText, view === tab && { color: '#4FD1C7' }]}>
+                  {tab === 'data' ? 'EXTRACTED DATA' : 'PAGE SNAPSHOT'}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
+        )}
+
+        {view === 'snapshot' ? (
+          <SnapshotViewer payloads={dataPayloads} />
         ) : (
-          dataPayloads.map((payload, index) => (
-            <Animated.View
-              key={payload.id}
-              entering={FadeInRight.delay(index * 100).springify()}
-              style={{ marginBottom: 16 }}
-            >
-              <GlassCard style={styles.payloadCard}>
-                <View style={styles.payloadHeader}>
-                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-                    <Code size={12} color="#4FD1C7" />
-                    <Text style={styles.commitLabel}>COMMIT_{payload.id.slice(0, 6)}</Text>
+          <>
+          {/* 2. TOOLBAR */}
+          <View style={styles.toolbar}>
+            <View style={styles.toolLeft}>
+              <Database size={14} color="#64748B" />
+              <Text style={styles.toolLabel}>CAPTURED NODES ({dataPayloads.length})</Text>
+            </View>
+
+            <TouchableOpacity onPress={handleExport} style={styles.exportBtn}>
+              <Share2 size={14} color="#4FD1C7" />
+              <Text style={styles.exportText}>EXPORT JSON</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* 3. DATA PAYLOADS */}
+          {dataPayloads.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <FileJson size={48} color="#334155" />
+              <Text style={styles.emptyTitle}>AWAITING DATA COMMIT</Text>
+              <Text style={styles.emptySub}>No structured data has been harvested yet.</Text>
+            </View>
+          ) : (
+            dataPayloads.map((payload, index) => (
+              <Animated.View
+                key={payload.id}
+                entering={FadeInRight.delay(index * 100).springify()}
+                style={{ marginBottom: 16 }}
+              >
+                <GlassCard style={styles.payloadCard}>
+                  <View style={styles.payloadHeader}>
+                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                      <Code size={12} color="#4FD1C7" />
+                      <Text style={styles.commitLabel}>COMMIT_{payload.id.slice(0, 6)}</Text>
+                    </View>
+                    <Text style={styles.timestamp}>
+                      {payload.created_at ? new Date(payload.created_at).toLocaleTimeString() : '--:--'}
+                    </Text>
                   </View>
-                  <Text style={styles.timestamp}>
-                    {payload.created_at ? new Date(payload.created_at).toLocaleTimeString() : '--:--'}
-                  </Text>
-                </View>
 
-                <View style={styles.jsonContainer}>
-                  {Object.entries((payload.content_structured as any) || {}).map(
-                    ([key, value], i) => (
-                      <View 
-                        key={`${key}-${i}`} 
-                        style={[
-                          styles.jsonRow,
-                          i === Object.keys(payload.content_structured as object).length - 1 && styles.lastRow
-                        ]}
-                      >
-                        <Text style={styles.jsonKey}>{key}</Text>
-                        <Text style={styles.jsonValue}>
-                          {typeof value === 'object' ? JSON.stringify(value) : String(value)}
-                        </Text>
-                      </View>
-                    ),
-                  )}
-                </View>
-              </GlassCard>
-            </Animated.View>
-          ))
+                  <View style={styles.jsonContainer}>
+                    {Object.entries((payload.content_structured as any) || {}).map(
+                      ([key, value], i) => {
+                        const source = (payload.metadata as PayloadMeta | null)?.field_sources?.[key];
+                        return (
+                          <View 
+                            key={`${key}-${i}`} 
+                            style={[
+                              styles.jsonRow,
+                              i === Object.keys(payload.content_structured as object).length - 1 && styles.lastRow
+                            ]}
+                          >
+                            <View style={styles.jsonKeyRow}>
+                              <Text style={styles.jsonKey}>{key}</Text>
+                              {source && (
+                                <Text style={[styles.sourceTag, { color: SOURCE_COLORS[source] || '#64748B' }]}>
+                                  {source.toUpperCase()}
+                                </Text>
+                              )}
+                            </View>
+                            {value !== null && typeof value === 'object' ? (
+                              <RecursiveDataNode data={value} />
+                            ) : (
+                              <Text style={styles.jsonValue}>{String(value)}</Text>
+                            )}
+                          </View>
+                        );
+                      },
+                    )}
+                  </View>
+                </GlassCard>
+              </Animated.View>
+            ))
+          )}
+          </>
         )}
       </ScrollView>
     </View>
@@ -282,6 +438,10 @@ const styles = StyleSheet.create({
 
   // IDENTITY CARD
   identityCard: { padding: 0, overflow: 'hidden', marginBottom: 32 },
+  failureCard: { padding: 20, marginTop: -16, marginBottom: 32, borderColor: 'rgba(239, 68, 68, 0.3)' },
+  failureHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 10 },
+  failureClass: { color: '#EF4444', fontSize: 10, fontWeight: '900', letterSpacing: 1.5 },
+  failureMessage: { color: 'rgba(255,255,255,0.7)', fontSize: 13, lineHeight: 19 },
   urlRow: { flexDirection: 'row', alignItems: 'center', padding: 20, borderBottomWidth: 1, borderBottomColor: 'rgba(255,255,255,0.05)' },
   iconBox: { width: 32, height: 32, borderRadius: 10, backgroundColor: 'rgba(79, 209, 199, 0.1)', alignItems: 'center', justifyContent: 'center', marginRight: 12 },
   urlText: { color: 'white', fontSize: 16, fontWeight: '800', flex: 1 },
@@ -291,6 +451,16 @@ const styles = StyleSheet.create({
   badgeText: { fontSize: 10, fontWeight: '900', marginLeft: 6, letterSpacing: 0.5 },
   idBadge: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 6, borderRadius: 8, backgroundColor: 'rgba(255,255,255,0.03)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.05)' },
   idText: { color: 'rgba(255,255,255,0.5)', fontSize: 10, fontWeight: '700', marginLeft: 6, fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace' },
+  deferRow: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 20, paddingBottom: 16, marginTop: -8 },
+  deferText: { color: '#F59E0B', fontSize: 10, fontWeight: '900', letterSpacing: 1 },
+  cancelBtn: { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-start', gap: 6, marginHorizontal: 20, marginBottom: 16, paddingHorizontal: 14, paddingVertical: 8, borderRadius: 12, borderWidth: 1, borderColor: 'rgba(239, 68, 68, 0.3)', backgroundColor: 'rgba(239, 68, 68, 0.1)' },
+  cancelText: { color: '#EF4444', fontSize: 10, fontWeight: '900', letterSpacing: 1 },
+
+  // VIEW TABS
+  viewTabs: { flexDirection: 'row', gap: 8, marginBottom: 24 },
+  viewTab: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 14, paddingVertical: 8, borderRadius: 12, borderWidth: 1, borderColor: 'rgba(255,255,255,0.08)' },
+  viewTabActive: { backgroundColor: 'rgba(79, 209, 199, 0.1)', borderColor: 'rgba(79, 209, 199, 0.3)' },
+  viewTabText: { color: '#64748B', fontSize: 10, fontWeight: '900', letterSpacing: 1 },
 
   // TOOLBAR
   toolbar: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20, paddingHorizontal: 4 },
@@ -307,7 +477,9 @@ const styles = StyleSheet.create({
   jsonContainer: { padding: 20 },
   jsonRow: { marginBottom: 16, borderBottomWidth: 1, borderBottomColor: 'rgba(255,255,255,0.05)', paddingBottom: 16 },
   lastRow: { marginBottom: 0, borderBottomWidth: 0, paddingBottom: 0 },
-  jsonKey: { color: '#4FD1C7', fontSize: 9, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1, marginBottom: 6 },
+  jsonKeyRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  jsonKey: { color: '#4FD1C7', fontSize: 9, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  sourceTag: { fontSize: 8, fontWeight: '900', letterSpacing: 1, fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace' },
   jsonValue: { color: '#E2E8F0', fontSize: 13, lineHeight: 20, fontWeight: '500' },
 
   // EMPTY STATE
@@ -0,0 +1,401 @@
+/**
+ * ============================================================================
+ * 🗂️ NORTH INTELLIGENCE OS: RUN HISTORY
+ * ============================================================================
+ * PATH: app/runs/[id].tsx
+ * Every run of one scraper (scraper -> scraping_jobs -> extracted_data),
+ * newest first. Crawl children are pages of their root run and are not
+ * listed. Tapping a run opens it in the Data Inspector.
+ * ============================================================================
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  ArrowLeft,
+  Globe,
+  History,
+  Database,
+  ChevronRight,
+  RotateCcw,
+} from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { GlassCard } from '@/components/ui/GlassCard';
+import { MainHeader } from '@/components/ui/MainHeader';
+import { supabase } from '@/lib/supabase';
+import { Tables } from '@/supabase/database.types';
+
+type Scraper = Tables<'scrapers'>;
+type Run = Pick<
+  Tables<'scraping_jobs'>,
+  'id' | 'url' | 'status' | 'attempts' | 'created_at' | 'last_run_at'
+> & { extracted_data: { count: number }[] };
+
+const RUN_LIMIT = 50;
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: '#10B981',
+  failed: '#EF4444',
+  running: '#38BDF8',
+  pending: '#F59E0B',
+  cancelled: '#64748B',
+};
+
+const statusColor = (status: string | null) =>
+  STATUS_COLORS[status ?? ''] ?? '#94A3B8';
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '--';
+
+export default function RunHistory() {
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [scraper, setScraper] = useState<Scraper | null>(null);
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [records, setRecords] = useState(0);
+
+  const fetchHistory = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [scraperRes, runsRes, recordsRes] = await Promise.all([
+        supabase.from('scrapers').select('*').eq('id', id).single(),
+        supabase
+          .from('scraping_jobs')
+          .select(
+            'id, url, status, attempts, created_at, last_run_at, extracted_data(count)'
+          )
+          .eq('scraper_id', id)
+          .is('parent_job_id', null)
+          .order('created_at', { ascending: false })
+          .limit(RUN_LIMIT),
+        supabase
+          .from('extracted_data')
+          .select('id', { count: 'exact', head: true })
+          .eq('scraper_id', id),
+      ]);
+
+      if (scraperRes.error) throw scraperRes.error;
+      if (runsRes.error) throw runsRes.error;
+
+      setScraper(scraperRes.data);
+      setRuns(runsRes.data as Run[]);
+      setRecords(recordsRes.count ?? 0);
+    } catch (e: any) {
+      console.error('[RUN_HISTORY_FAULT]', e.message);
+      Alert.alert('History Fault', 'Could not load run history.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchHistory();
+    const channel = supabase
+      .channel(`runs-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'scraping_jobs',
+          filter: `scraper_id=eq.${id}`,
+        },
+        fetchHistory
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchHistory]);
+
+  const finished = runs.filter(
+    (r) => r.status === 'completed' || r.status === 'failed'
+  );
+  const successRate = finished.length
+    ? Math.round(
+        (finished.filter((r) => r.status === 'completed').length /
+          finished.length) *
+          100
+      )
+    : null;
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <ActivityIndicator color="#4FD1C7" size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.root}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <MainHeader title="Run History" />
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{ padding: 24, paddingBottom: 120 }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInDown.duration(500)}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backBtn}
+          >
+            <ArrowLeft size={16} color="rgba(255,255,255,0.7)" />
+            <Text style={styles.backText}>RETURN TO DECK</Text>
+          </TouchableOpacity>
+
+          <GlassCard style={styles.identityCard}>
+            <View style={styles.urlRow}>
+              <View style={styles.iconBox}>
+                <Globe size={20} color="#4FD1C7" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.nameText} numberOfLines={1}>
+                  {scraper?.name ?? 'UNKNOWN NODE'}
+                </Text>
+                <Text style={styles.urlText} numberOfLines={1}>
+                  {scraper?.target_url}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.lastRunRow}>
+              <View
+                style={[
+                  styles.dot,
+                  {
+                    backgroundColor: statusColor(
+                      scraper?.last_run_status ?? null
+                    ),
+                  },
+                ]}
+              />
+              <Text style={styles.lastRunText}>
+                LAST RUN: {scraper?.last_run_status?.toUpperCase() ?? 'NEVER'}
+                {scraper?.last_run_at
+                  ? ` · ${formatTime(scraper.last_run_at)}`
+                  : ''}
+              </Text>
+            </View>
+          </GlassCard>
+        </Animated.View>
+
+        <Animated.View
+          entering={FadeInDown.delay(100).duration(500)}
+          style={styles.statsRow}
+        >
+          <View style={styles.statBox}>
+            <Text style={styles.statLabel}>RUNS</Text>
+            <Text style={styles.statValue}>{runs.length}</Text>
+          </View>
+          <View style={styles.statBox}>
+            <Text style={styles.statLabel}>SUCCESS</Text>
+            <Text style={styles.statValue}>
+              {successRate === null ? '--' : `${successRate}%`}
+            </Text>
+          </View>
+          <View style={styles.statBox}>
+            <Text style={styles.statLabel}>RECORDS</Text>
+            <Text style={styles.statValue}>{records}</Text>
+          </View>
+        </Animated.View>
+
+        <View style={styles.sectionRow}>
+          <History size={14} color="#64748B" />
+          <Text style={styles.sectionLabel}>
+            RUNS {runs.length === RUN_LIMIT ? `(LATEST ${RUN_LIMIT})` : ''}
+          </Text>
+        </View>
+
+        {runs.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <History size={48} color="#334155" />
+            <Text style={styles.emptyTitle}>NO RUNS YET</Text>
+          </View>
+        ) : (
+          runs.map((run, index) => {
+            const color = statusColor(run.status);
+            return (
+              <Animated.View
+                key={run.id}
+                entering={FadeInDown.delay(150 + index * 40).duration(400)}
+              >
+                <TouchableOpacity
+                  onPress={() => router.push(`/details/${run.id}`)}
+                  style={styles.runRow}
+                >
+                  <View style={[styles.dot, { backgroundColor: color }]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.runStatus, { color }]}>
+                      {run.status?.toUpperCase() ?? 'UNKNOWN'}
+                    </Text>
+                    <Text style={styles.runTime}>
+                      {formatTime(run.created_at)}
+                    </Text>
+                  </View>
+                  <View style={styles.runMeta}>
+                    {run.attempts > 1 && (
+                      <View style={styles.metaItem}>
+                        <RotateCcw size={10} color="#64748B" />
+                        <Text style={styles.metaText}>{run.attempts}</Text>
+                      </View>
+                    )}
+                    <View style={styles.metaItem}>
+                      <Database size={10} color="#64748B" />
+                      <Text style={styles.metaText}>
+                        {run.extracted_data[0]?.count ?? 0}
+                      </Text>
+                    </View>
+                  </View>
+                  <ChevronRight size={16} color="#334155" />
+                </TouchableOpacity>
+              </Animated.View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1, backgroundColor: '#020617' },
+  centerContainer: {
+    flex: 1,
+    backgroundColor: '#020617',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    opacity: 0.8,
+  },
+  backText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginLeft: 8,
+  },
+
+  identityCard: { padding: 0, overflow: 'hidden', marginBottom: 24 },
+  urlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  iconBox: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: 'rgba(79, 209, 199, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  nameText: { color: 'white', fontSize: 16, fontWeight: '800' },
+  urlText: { color: '#64748B', fontSize: 12, marginTop: 2 },
+  lastRunRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 20,
+  },
+  lastRunText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  dot: { width: 8, height: 8, borderRadius: 4 },
+
+  statsRow: { flexDirection: 'row', gap: 12, marginBottom: 32 },
+  statBox: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    backgroundColor: 'rgba(255,255,255,0.02)',
+  },
+  statLabel: {
+    color: '#64748B',
+    fontSize: 9,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+  },
+  statValue: { color: 'white', fontSize: 20, fontWeight: '800', marginTop: 6 },
+
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  sectionLabel: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+
+  runRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+  },
+  runStatus: { fontSize: 11, fontWeight: '900', letterSpacing: 1 },
+  runTime: {
+    color: '#64748B',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  runMeta: { flexDirection: 'row', gap: 10 },
+  metaItem: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  metaText: { color: '#64748B', fontSize: 10, fontWeight: '700' },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    opacity: 0.5,
+  },
+  emptyTitle: {
+    color: '#94A3B8',
+    fontSize: 12,
+    fontWeight: '900',
+    letterSpacing: 2,
+    marginTop: 16,
+  },
+});
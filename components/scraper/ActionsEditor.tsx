@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * 🎬 NORTH INTELLIGENCE OS: INTERACTION SCRIPT EDITOR
+ * ============================================================================
+ * PATH: components/scraper/ActionsEditor.tsx
+ * Ordered browser steps replayed before extraction (public.scrapers.actions):
+ * dismiss cookie banners, press "Load more", fill search forms.
+ * Optional steps may fail without stopping the script.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { ArrowUp, X } from 'lucide-react-native';
+
+export type ActionType =
+  | 'click'
+  | 'type'
+  | 'select'
+  | 'wait'
+  | 'scroll'
+  | 'press';
+
+/** Persisted shape; mirrors scrape-engine/actions.ts */
+export type ActionSpec = {
+  type: ActionType;
+  selector?: string;
+  text?: string;
+  value?: string;
+  key?: string;
+  ms?: number;
+  optional?: boolean;
+};
+
+const ACTION_TYPES: { value: ActionType; label: string }[] = [
+  { value: 'click', label: 'CLICK' },
+  { value: 'type', label: 'TYPE' },
+  { value: 'select', label: 'SELECT' },
+  { value: 'wait', label: 'WAIT' },
+  { value: 'scroll', label: 'SCROLL' },
+  { value: 'press', label: 'KEY' },
+];
+
+/** Server-side ceiling (ACTION_LIMIT in scrape-engine) */
+export const MAX_ACTIONS = 25;
+
+/** Returns an error message, or null when the script can be saved. */
+export const validateActions = (actions: ActionSpec[]) => {
+  const index = actions.findIndex(
+    (a) =>
+      (['click', 'type', 'select'].includes(a.type) && !a.selector?.trim()) ||
+      (a.type === 'press' && !a.key?.trim())
+  );
+  return index === -1
+    ? null
+    : `Step ${index + 1} (${actions[index].type}) is missing its ${
+        actions[index].type === 'press' ? 'key' : 'selector'
+      }.`;
+};
+
+interface ActionsEditorProps {
+  value: ActionSpec[];
+  onChange: (value: ActionSpec[]) => void;
+}
+
+export const ActionsEditor: React.FC<ActionsEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const update = (index: number, patch: Partial<ActionSpec>) =>
+    onChange(value.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+
+  const moveUp = (index: number) => {
+    const next = [...value];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  const field = (
+    index: number,
+    key: 'selector' | 'text' | 'value' | 'key',
+    placeholder: string
+  ) => (
+    <TextInput
+      style={styles.input}
+      value={value[index][key] ?? ''}
+      onChangeText={(text) => update(index, { [key]: text })}
+      placeholder={placeholder}
+      placeholderTextColor="#475569"
+      autoCapitalize="none"
+    />
+  );
+
+  return (
+    <View>
+      {value.map((action, index) => (
+        <View key={index} style={styles.step}>
+          <View style={styles.stepHeader}>
+            <Text style={styles.stepIndex}>
+              {String(index + 1).padStart(2, '0')}
+            </Text>
+            <Text style={styles.stepType}>
+              {ACTION_TYPES.find((t) => t.value === action.type)?.label}
+            </Text>
+            <TouchableOpacity
+              onPress={() => update(index, { optional: !action.optional })}
+              style={[styles.tag, action.optional && styles.tagActive]}
+            >
+              <Text
+                style={[
+                  styles.tagText,
+                  action.optional && { color: '#A855F7' },
+                ]}
+              >
+                OPTIONAL
+              </Text>
+            </TouchableOpacity>
+            <View style={{ flex: 1 }} />
+            {index > 0 && (
+              <TouchableOpacity
+                onPress={() => moveUp(index)}
+                style={styles.iconBtn}
+              >
+                <ArrowUp size={14} color="#64748B" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => onChange(value.filter((_, i) => i !== index))}
+              style={styles.iconBtn}
+            >
+              <X size={14} color="#F43F5E" />
+            </TouchableOpacity>
+          </View>
+
+          {['click', 'type', 'select'].includes(action.type) &&
+            field(index, 'selector', 'button.load-more')}
+          {action.type === 'type' && field(index, 'text', 'Text to type')}
+          {action.type === 'select' && field(index, 'value', 'Option value')}
+          {action.type === 'press' && field(index, 'key', 'Enter')}
+          {(action.type === 'wait' || action.type === 'scroll') &&
+            field(
+              index,
+              'selector',
+              action.type === 'wait'
+                ? 'Selector (blank = wait MS below)'
+                : 'Selector (blank = bottom of page)'
+            )}
+          {action.type === 'wait' && !action.selector && (
+            <TextInput
+              style={styles.input}
+              value={String(action.ms ?? 1000)}
+              onChangeText={(t) =>
+                update(index, { ms: parseInt(t.replace(/\D/g, ''), 10) || 0 })
+              }
+              keyboardType="number-pad"
+            />
+          )}
+        </View>
+      ))}
+
+      {value.length < MAX_ACTIONS && (
+        <View style={styles.chipRow}>
+          {ACTION_TYPES.map((t) => (
+            <TouchableOpacity
+              key={t.value}
+              onPress={() => onChange([...value, { type: t.value }])}
+              style={styles.chip}
+            >
+              <Text style={styles.chipText}>+ {t.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  step: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(168, 85, 247, 0.2)',
+    backgroundColor: 'rgba(168, 85, 247, 0.04)',
+  },
+  stepHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  stepIndex: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  stepType: {
+    color: '#A855F7',
+    fontSize: 11,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  tagActive: {
+    backgroundColor: 'rgba(168, 85, 247, 0.15)',
+    borderColor: 'rgba(168, 85, 247, 0.4)',
+  },
+  tagText: {
+    color: '#64748b',
+    fontSize: 8,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  iconBtn: { padding: 4 },
+  input: {
+    marginTop: 10,
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 12,
+    padding: 12,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  chipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+});
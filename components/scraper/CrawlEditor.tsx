@@ -0,0 +1,199 @@
+/**
+ * ============================================================================
+ * 🕸️ NORTH INTELLIGENCE OS: CRAWL SCOPE CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/CrawlEditor.tsx
+ * Declares crawl mode (public.scrapers.crawl): the Scrape Engine follows links
+ * from the target URL and extra seeds, enqueuing one child job per page.
+ * - SCOPE: same-domain lock + include/exclude patterns ("*" wildcards).
+ * - LIMITS: link depth and total pages per crawl.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+
+/** Persisted shape; mirrors scrape-engine/crawl.ts */
+export type CrawlSpec = {
+  seeds: string[];
+  include: string[];
+  exclude: string[];
+  same_domain: boolean;
+  max_depth: number;
+  max_pages: number;
+};
+
+/** Server-side ceilings (CRAWL_DEPTH_LIMIT / CRAWL_PAGE_LIMIT) */
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 500;
+
+export const DEFAULT_CRAWL: CrawlSpec = {
+  seeds: [],
+  include: [],
+  exclude: [],
+  same_domain: true,
+  max_depth: 1,
+  max_pages: 25,
+};
+
+const toLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+interface CrawlEditorProps {
+  value: CrawlSpec | null;
+  onChange: (value: CrawlSpec | null) => void;
+}
+
+export const CrawlEditor: React.FC<CrawlEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const setNumber = (
+    key: 'max_depth' | 'max_pages',
+    text: string,
+    max: number
+  ) =>
+    value &&
+    onChange({
+      ...value,
+      [key]: Math.min(max, parseInt(text.replace(/\D/g, ''), 10) || 0),
+    });
+
+  return (
+    <View>
+      <View style={styles.switchRow}>
+        <View>
+          <Text style={styles.switchTitle}>CRAWL MODE</Text>
+          <Text style={styles.switchSub}>Follow links beyond the target</Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(on) => onChange(on ? DEFAULT_CRAWL : null)}
+          trackColor={{ false: '#1e293b', true: 'rgba(16, 185, 129, 0.3)' }}
+          thumbColor={value ? '#10B981' : '#64748b'}
+        />
+      </View>
+
+      {value && (
+        <>
+          <Text style={styles.label}>EXTRA SEEDS (ONE PER LINE)</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            defaultValue={value.seeds.join('\n')}
+            onChangeText={(text) =>
+              onChange({ ...value, seeds: toLines(text) })
+            }
+            placeholder="https://target.com/category/b"
+            placeholderTextColor="#475569"
+            autoCapitalize="none"
+            multiline
+          />
+
+          <Text style={styles.label}>INCLUDE PATTERNS</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            defaultValue={value.include.join('\n')}
+            onChangeText={(text) =>
+              onChange({ ...value, include: toLines(text) })
+            }
+            placeholder="*/products/*"
+            placeholderTextColor="#475569"
+            autoCapitalize="none"
+            multiline
+          />
+
+          <Text style={styles.label}>EXCLUDE PATTERNS</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            defaultValue={value.exclude.join('\n')}
+            onChangeText={(text) =>
+              onChange({ ...value, exclude: toLines(text) })
+            }
+            placeholder="/login"
+            placeholderTextColor="#475569"
+            autoCapitalize="none"
+            multiline
+          />
+
+          <View style={[styles.switchRow, { marginTop: 16 }]}>
+            <Text style={styles.switchTitle}>SAME DOMAIN ONLY</Text>
+            <Switch
+              value={value.same_domain}
+              onValueChange={(same_domain) =>
+                onChange({ ...value, same_domain })
+              }
+              trackColor={{ false: '#1e293b', true: 'rgba(16, 185, 129, 0.3)' }}
+              thumbColor={value.same_domain ? '#10B981' : '#64748b'}
+            />
+          </View>
+
+          <View style={styles.limitRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>MAX DEPTH</Text>
+              <TextInput
+                style={styles.input}
+                value={String(value.max_depth)}
+                onChangeText={(t) => setNumber('max_depth', t, MAX_CRAWL_DEPTH)}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>MAX PAGES</Text>
+              <TextInput
+                style={styles.input}
+                value={String(value.max_pages)}
+                onChangeText={(t) => setNumber('max_pages', t, MAX_CRAWL_PAGES)}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#10B981',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  label: {
+    marginTop: 16,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  multiline: { minHeight: 64, textAlignVertical: 'top' },
+  limitRow: { flexDirection: 'row', gap: 12 },
+});
@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * 📑 NORTH INTELLIGENCE OS: PAGINATION CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/PaginationEditor.tsx
+ * Declares how the Scrape Engine walks a listing (public.scrapers.pagination):
+ * - NEXT LINK: CSS selector of the "next" anchor (blank = rel="next").
+ * - URL TEMPLATE: page URL with a {page} placeholder.
+ * - AI DETECT: the inference engine picks the next-page link.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+
+export type PaginationStrategy = 'next_link' | 'url_template' | 'ai';
+
+/** Persisted shape; mirrors scrape-engine/pagination.ts */
+export type PaginationSpec = {
+  strategy: PaginationStrategy;
+  selector?: string;
+  template?: string;
+  max_pages: number;
+};
+
+/** Server-side ceiling (PAGE_LIMIT in scrape-engine) */
+export const MAX_PAGES_LIMIT = 50;
+
+const STRATEGIES: { value: PaginationStrategy | null; label: string }[] = [
+  { value: null, label: 'SINGLE PAGE' },
+  { value: 'next_link', label: 'NEXT LINK' },
+  { value: 'url_template', label: 'URL TEMPLATE' },
+  { value: 'ai', label: 'AI DETECT' },
+];
+
+interface PaginationEditorProps {
+  value: PaginationSpec | null;
+  onChange: (value: PaginationSpec | null) => void;
+}
+
+export const PaginationEditor: React.FC<PaginationEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const selectStrategy = (strategy: PaginationStrategy | null) =>
+    onChange(strategy ? { strategy, max_pages: value?.max_pages ?? 5 } : null);
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {STRATEGIES.map((option) => {
+          const active = (value?.strategy ?? null) === option.value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              onPress={() => selectStrategy(option.value)}
+              style={[styles.chip, active && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, active && { color: '#06b6d4' }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value?.strategy === 'next_link' && (
+        <TextInput
+          style={styles.input}
+          value={value.selector ?? ''}
+          onChangeText={(selector) => onChange({ ...value, selector })}
+          placeholder='a.next, li.pagination-next > a (blank = rel="next")'
+          placeholderTextColor="#475569"
+          autoCapitalize="none"
+        />
+      )}
+
+      {value?.strategy === 'url_template' && (
+        <TextInput
+          style={styles.input}
+          value={value.template ?? ''}
+          onChangeText={(template) => onChange({ ...value, template })}
+          placeholder="https://target.com/list?page={page}"
+          placeholderTextColor="#475569"
+          autoCapitalize="none"
+        />
+      )}
+
+      {value && (
+        <View style={styles.capRow}>
+          <Text style={styles.capLabel}>MAX PAGES</Text>
+          <TextInput
+            style={[styles.input, styles.capInput]}
+            value={String(value.max_pages)}
+            onChangeText={(text) => {
+              const pages = parseInt(text.replace(/\D/g, ''), 10) || 1;
+              onChange({
+                ...value,
+                max_pages: Math.min(MAX_PAGES_LIMIT, pages),
+              });
+            }}
+            keyboardType="number-pad"
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+/** Returns an error message, or null when the spec can be saved. */
+export const validatePagination = (spec: PaginationSpec | null) => {
+  if (spec?.strategy === 'url_template' && !spec.template?.includes('{page}'))
+    return 'URL template must contain a {page} placeholder.';
+  return null;
+};
+
+const styles = StyleSheet.create({
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(6, 182, 212, 0.15)',
+    borderColor: 'rgba(6, 182, 212, 0.4)',
+  },
+  chipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  input: {
+    marginTop: 12,
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  capRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  capLabel: {
+    marginTop: 12,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+  },
+  capInput: { width: 80, textAlign: 'center', color: 'white' },
+});
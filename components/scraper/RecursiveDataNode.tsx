@@ -6,6 +6,7 @@
  * - DEEP NESTING: Recursively parses any depth of JSON/Gemini payloads.
  * - TYPE-SPECIFIC TINTING: Color-coded rendering for Keys, Strings, and Numbers.
  * - COLLAPSIBLE CLUSTERS: Handles large arrays without UI overflow.
+ * - RECORD LISTS: Arrays of objects (schema item shapes) render as indexed records.
  * - MONOSPACE ALIGNMENT: Ensures forensic-level data readability.
  * ============================================================================
  */
@@ -46,13 +47,20 @@ export const RecursiveDataNode: React.FC<RecursiveDataNodeProps> = ({
   if (isArray) {
     return (
       <View style={[styles.container, { marginLeft: depth * 12 }]}>
-        {label && <Text style={styles.keyLabel}>{label.toUpperCase()} (ARRAY)</Text>}
+        {label && <Text style={styles.keyLabel}>{label.toUpperCase()} (ARRAY · {data.length})</Text>}
         {data.map((item, index) => (
           <Animated.View key={index} style={styles.arrayItem} entering={FadeInRight.delay(index * 50)}>
             <View style={styles.bulletBox}>
                <View style={styles.bullet} />
             </View>
-            <RecursiveDataNode data={item} depth={1} />
+            {/* Arrays of records (product listings etc.) get an index label per item */}
+            <View style={styles.arrayItemBody}>
+              <RecursiveDataNode
+                data={item}
+                label={item !== null && typeof item === 'object' ? `#${index + 1}` : undefined}
+                depth={0}
+              />
+            </View>
           </Animated.View>
         ))}
       </View>
@@ -111,6 +119,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     padding: 8,
   },
+  arrayItemBody: {
+    flex: 1,
+  },
   bulletBox: {
     width: 20,
     alignItems: 'center',
@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * 🖥️ NORTH INTELLIGENCE OS: BROWSER RENDER CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/RenderEditor.tsx
+ * Enables headless-browser rendering for JavaScript-heavy targets. When on,
+ * the scraper's engine_type becomes 'browser:<inference engine>' and these
+ * options are stored in public.scrapers.render.
+ * - WAIT FOR SELECTOR: element that signals the app has rendered.
+ * - NETWORK IDLE: wait until requests settle after navigation.
+ * - SCROLL TO BOTTOM: triggers lazy-loaded content.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+
+/** Persisted shape; mirrors scrape-engine/render.ts */
+export type RenderSpec = {
+  wait_for_selector: string;
+  network_idle: boolean;
+  scroll_to_bottom: boolean;
+  timeout_ms: number;
+};
+
+export const DEFAULT_RENDER: RenderSpec = {
+  wait_for_selector: '',
+  network_idle: true,
+  scroll_to_bottom: false,
+  timeout_ms: 30000,
+};
+
+/** engine_type sent to the Scrape Engine for a given inference engine */
+export const browserEngineType = (engineType: string) =>
+  `browser:${engineType}`;
+
+interface RenderEditorProps {
+  value: RenderSpec | null;
+  onChange: (value: RenderSpec | null) => void;
+}
+
+export const RenderEditor: React.FC<RenderEditorProps> = ({
+  value,
+  onChange,
+}) => (
+  <View>
+    <View style={styles.switchRow}>
+      <View>
+        <Text style={styles.switchTitle}>BROWSER RENDERING</Text>
+        <Text style={styles.switchSub}>Run JavaScript before extraction</Text>
+      </View>
+      <Switch
+        value={!!value}
+        onValueChange={(on) => onChange(on ? DEFAULT_RENDER : null)}
+        trackColor={{ false: '#1e293b', true: 'rgba(168, 85, 247, 0.3)' }}
+        thumbColor={value ? '#A855F7' : '#64748b'}
+      />
+    </View>
+
+    {value && (
+      <>
+        <Text style={styles.label}>WAIT FOR SELECTOR</Text>
+        <TextInput
+          style={styles.input}
+          value={value.wait_for_selector}
+          onChangeText={(wait_for_selector) =>
+            onChange({ ...value, wait_for_selector })
+          }
+          placeholder="#app .product-card"
+          placeholderTextColor="#475569"
+          autoCapitalize="none"
+        />
+
+        <View style={[styles.switchRow, { marginTop: 16 }]}>
+          <Text style={styles.optionTitle}>WAIT FOR NETWORK IDLE</Text>
+          <Switch
+            value={value.network_idle}
+            onValueChange={(network_idle) =>
+              onChange({ ...value, network_idle })
+            }
+            trackColor={{ false: '#1e293b', true: 'rgba(168, 85, 247, 0.3)' }}
+            thumbColor={value.network_idle ? '#A855F7' : '#64748b'}
+          />
+        </View>
+
+        <View style={[styles.switchRow, { marginTop: 16 }]}>
+          <Text style={styles.optionTitle}>SCROLL TO BOTTOM</Text>
+          <Switch
+            value={value.scroll_to_bottom}
+            onValueChange={(scroll_to_bottom) =>
+              onChange({ ...value, scroll_to_bottom })
+            }
+            trackColor={{ false: '#1e293b', true: 'rgba(168, 85, 247, 0.3)' }}
+            thumbColor={value.scroll_to_bottom ? '#A855F7' : '#64748b'}
+          />
+        </View>
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#A855F7',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  optionTitle: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+  },
+  label: {
+    marginTop: 16,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+});
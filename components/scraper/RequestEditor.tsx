@@ -0,0 +1,325 @@
+/**
+ * ============================================================================
+ * 📨 NORTH INTELLIGENCE OS: REQUEST PROFILE CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/RequestEditor.tsx
+ * Shapes the HTTP request the Scrape Engine sends for every page
+ * (public.scrapers.request_profile). Off = plain GET.
+ * - METHOD / BODY: only the target URL is sent as POST/PUT; pagination and
+ *   crawl links stay GET.
+ * - HEADERS / COOKIES: for authenticated dashboards and API endpoints.
+ * - QUERY: values accept {{page}}, {{date}} and {{timestamp}}.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+
+export type RequestPair = { name: string; value: string };
+
+/** Persisted shape; mirrors scrape-engine/request.ts */
+export type RequestSpec = {
+  method: 'GET' | 'POST' | 'PUT';
+  headers: RequestPair[];
+  cookies: RequestPair[];
+  query: RequestPair[];
+  body_type: 'none' | 'form' | 'json';
+  body: string;
+  accept_language: string;
+};
+
+export const DEFAULT_REQUEST: RequestSpec = {
+  method: 'GET',
+  headers: [],
+  cookies: [],
+  query: [],
+  body_type: 'none',
+  body: '',
+  accept_language: '',
+};
+
+const METHODS: RequestSpec['method'][] = ['GET', 'POST', 'PUT'];
+const BODY_TYPES: RequestSpec['body_type'][] = ['none', 'form', 'json'];
+
+/** Returns an error message, or null when the profile can be saved. */
+export const validateRequest = (spec: RequestSpec | null) => {
+  if (!spec) return null;
+  const blank = [...spec.headers, ...spec.cookies, ...spec.query].find(
+    (p) => !p.name.trim() && p.value.trim()
+  );
+  if (blank) return `"${blank.value}" has no name.`;
+  if (spec.method !== 'GET' && spec.body_type === 'json' && spec.body.trim()) {
+    try {
+      // Placeholders are filled in by the engine; check the JSON around them.
+      JSON.parse(spec.body.replace(/\{\{\s*\w+\s*\}\}/g, '0'));
+    } catch {
+      return 'JSON body is not valid JSON.';
+    }
+  }
+  return null;
+};
+
+interface PairListProps {
+  label: string;
+  pairs: RequestPair[];
+  placeholder: RequestPair;
+  onChange: (pairs: RequestPair[]) => void;
+}
+
+const PairList: React.FC<PairListProps> = ({
+  label,
+  pairs,
+  placeholder,
+  onChange,
+}) => {
+  const update = (index: number, patch: Partial<RequestPair>) =>
+    onChange(pairs.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  return (
+    <View>
+      <View style={styles.listHeader}>
+        <Text style={styles.label}>{label}</Text>
+        <TouchableOpacity
+          onPress={() => onChange([...pairs, { name: '', value: '' }])}
+        >
+          <Text style={styles.addText}>+ ADD</Text>
+        </TouchableOpacity>
+      </View>
+      {pairs.map((pair, index) => (
+        <View key={index} style={styles.pairRow}>
+          <TextInput
+            style={[styles.input, { flex: 2 }]}
+            value={pair.name}
+            onChangeText={(name) => update(index, { name })}
+            placeholder={placeholder.name}
+            placeholderTextColor="#475569"
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={[styles.input, { flex: 3 }]}
+            value={pair.value}
+            onChangeText={(value) => update(index, { value })}
+            placeholder={placeholder.value}
+            placeholderTextColor="#475569"
+            autoCapitalize="none"
+          />
+          <TouchableOpacity
+            onPress={() => onChange(pairs.filter((_, i) => i !== index))}
+            style={styles.iconBtn}
+          >
+            <X size={14} color="#F43F5E" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+interface RequestEditorProps {
+  value: RequestSpec | null;
+  onChange: (value: RequestSpec | null) => void;
+}
+
+export const RequestEditor: React.FC<RequestEditorProps> = ({
+  value,
+  onChange,
+}) => (
+  <View>
+    <View style={styles.switchRow}>
+      <View>
+        <Text style={styles.switchTitle}>CUSTOM REQUEST</Text>
+        <Text style={styles.switchSub}>Headers, cookies, method and body</Text>
+      </View>
+      <Switch
+        value={!!value}
+        onValueChange={(on) => onChange(on ? DEFAULT_REQUEST : null)}
+        trackColor={{ false: '#1e293b', true: 'rgba(251, 146, 60, 0.3)' }}
+        thumbColor={value ? '#FB923C' : '#64748b'}
+      />
+    </View>
+
+    {value && (
+      <>
+        <Text style={[styles.label, { marginTop: 16 }]}>METHOD</Text>
+        <View style={styles.chipRow}>
+          {METHODS.map((method) => (
+            <TouchableOpacity
+              key={method}
+              onPress={() => onChange({ ...value, method })}
+              style={[
+                styles.chip,
+                value.method === method && styles.chipActive,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  value.method === method && { color: '#FB923C' },
+                ]}
+              >
+                {method}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.label, { marginTop: 16 }]}>ACCEPT-LANGUAGE</Text>
+        <TextInput
+          style={styles.input}
+          value={value.accept_language}
+          onChangeText={(accept_language) =>
+            onChange({ ...value, accept_language })
+          }
+          placeholder="en-US,en;q=0.9"
+          placeholderTextColor="#475569"
+          autoCapitalize="none"
+        />
+
+        <PairList
+          label="HEADERS"
+          pairs={value.headers}
+          placeholder={{ name: 'Authorization', value: 'Bearer …' }}
+          onChange={(headers) => onChange({ ...value, headers })}
+        />
+        <PairList
+          label="COOKIES"
+          pairs={value.cookies}
+          placeholder={{ name: 'session', value: 'abc123' }}
+          onChange={(cookies) => onChange({ ...value, cookies })}
+        />
+        <PairList
+          label="QUERY PARAMETERS"
+          pairs={value.query}
+          placeholder={{ name: 'page', value: '{{page}}' }}
+          onChange={(query) => onChange({ ...value, query })}
+        />
+
+        {value.method !== 'GET' && (
+          <>
+            <Text style={[styles.label, { marginTop: 16 }]}>BODY</Text>
+            <View style={styles.chipRow}>
+              {BODY_TYPES.map((body_type) => (
+                <TouchableOpacity
+                  key={body_type}
+                  onPress={() => onChange({ ...value, body_type })}
+                  style={[
+                    styles.chip,
+                    value.body_type === body_type && styles.chipActive,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      value.body_type === body_type && { color: '#FB923C' },
+                    ]}
+                  >
+                    {body_type.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {value.body_type !== 'none' && (
+              <TextInput
+                style={[styles.input, styles.bodyInput]}
+                value={value.body}
+                onChangeText={(body) => onChange({ ...value, body })}
+                placeholder={
+                  value.body_type === 'json'
+                    ? '{ "page": {{page}} }'
+                    : 'q=laptops&page={{page}}'
+                }
+                placeholderTextColor="#475569"
+                autoCapitalize="none"
+                multiline
+              />
+            )}
+          </>
+        )}
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#FB923C',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  label: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  addText: {
+    color: '#FB923C',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  pairRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  iconBtn: { padding: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(251, 146, 60, 0.1)',
+    borderColor: 'rgba(251, 146, 60, 0.3)',
+  },
+  chipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 12,
+    padding: 12,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  bodyInput: {
+    marginTop: 12,
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+});
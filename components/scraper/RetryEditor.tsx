@@ -0,0 +1,181 @@
+/**
+ * ============================================================================
+ * 🔁 NORTH INTELLIGENCE OS: RETRY POLICY CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/RetryEditor.tsx
+ * Declares how the Scrape Engine retries a failed fetch
+ * (public.scrapers.retry_policy). Off = engine defaults.
+ * - ATTEMPTS: total fetches per page, first try included.
+ * - BACKOFF: exponential from the base delay, capped at the max delay.
+ *   A target's Retry-After header always takes precedence.
+ * - RETRYABLE: status codes plus (optionally) network errors.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+
+/** Persisted shape; mirrors scrape-engine/retry.ts */
+export type RetrySpec = {
+  max_attempts: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+  retry_on: number[];
+  retry_network: boolean;
+};
+
+/** Server-side ceiling (RETRY_ATTEMPT_LIMIT in scrape-engine) */
+export const MAX_RETRY_ATTEMPTS = 10;
+
+export const DEFAULT_RETRY: RetrySpec = {
+  max_attempts: 3,
+  base_delay_ms: 1000,
+  max_delay_ms: 30000,
+  retry_on: [408, 425, 429, 500, 502, 503, 504],
+  retry_network: true,
+};
+
+const toSeconds = (ms: number) => String(ms / 1000);
+const fromSeconds = (text: string) =>
+  Math.round((parseFloat(text.replace(/[^\d.]/g, '')) || 0) * 1000);
+
+interface RetryEditorProps {
+  value: RetrySpec | null;
+  onChange: (value: RetrySpec | null) => void;
+}
+
+export const RetryEditor: React.FC<RetryEditorProps> = ({
+  value,
+  onChange,
+}) => (
+  <View>
+    <View style={styles.switchRow}>
+      <View>
+        <Text style={styles.switchTitle}>CUSTOM RETRY POLICY</Text>
+        <Text style={styles.switchSub}>
+          Default: 3 attempts, 1s → 30s backoff
+        </Text>
+      </View>
+      <Switch
+        value={!!value}
+        onValueChange={(on) => onChange(on ? DEFAULT_RETRY : null)}
+        trackColor={{ false: '#1e293b', true: 'rgba(56, 189, 248, 0.3)' }}
+        thumbColor={value ? '#38BDF8' : '#64748b'}
+      />
+    </View>
+
+    {value && (
+      <>
+        <View style={styles.limitRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.label}>ATTEMPTS</Text>
+            <TextInput
+              style={styles.input}
+              value={String(value.max_attempts)}
+              onChangeText={(t) =>
+                onChange({
+                  ...value,
+                  max_attempts: Math.min(
+                    MAX_RETRY_ATTEMPTS,
+                    parseInt(t.replace(/\D/g, ''), 10) || 1
+                  ),
+                })
+              }
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.label}>BASE (S)</Text>
+            <TextInput
+              style={styles.input}
+              defaultValue={toSeconds(value.base_delay_ms)}
+              onChangeText={(t) =>
+                onChange({ ...value, base_delay_ms: fromSeconds(t) })
+              }
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.label}>MAX (S)</Text>
+            <TextInput
+              style={styles.input}
+              defaultValue={toSeconds(value.max_delay_ms)}
+              onChangeText={(t) =>
+                onChange({ ...value, max_delay_ms: fromSeconds(t) })
+              }
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.label}>RETRY ON STATUS</Text>
+        <TextInput
+          style={styles.input}
+          defaultValue={value.retry_on.join(', ')}
+          onChangeText={(text) =>
+            onChange({
+              ...value,
+              retry_on: (text.match(/\d{3}/g) ?? []).map(Number),
+            })
+          }
+          placeholder="429, 503"
+          placeholderTextColor="#475569"
+          keyboardType="numbers-and-punctuation"
+        />
+
+        <View style={[styles.switchRow, { marginTop: 16 }]}>
+          <Text style={styles.switchTitle}>RETRY NETWORK ERRORS</Text>
+          <Switch
+            value={value.retry_network}
+            onValueChange={(retry_network) =>
+              onChange({ ...value, retry_network })
+            }
+            trackColor={{ false: '#1e293b', true: 'rgba(56, 189, 248, 0.3)' }}
+            thumbColor={value.retry_network ? '#38BDF8' : '#64748b'}
+          />
+        </View>
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#38BDF8',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  label: {
+    marginTop: 16,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  limitRow: { flexDirection: 'row', gap: 12 },
+});
@@ -0,0 +1,312 @@
+/**
+ * ============================================================================
+ * ⏰ NORTH INTELLIGENCE OS: SCHEDULE CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/ScheduleEditor.tsx
+ * Declares when the queue worker re-runs a scraper on its own
+ * (public.scrapers.schedule). Off = manual runs only.
+ * - CRON: 5-field expression, evaluated in the chosen time zone.
+ * - INTERVAL: every N minutes from the last scheduled run.
+ * A run is skipped while the previous one is still queued or running.
+ * The preview uses the worker's own schedule module, so it matches it.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import {
+  MIN_INTERVAL_MINUTES,
+  isValidTimeZone,
+  nextRun,
+  nextRuns,
+  normalizeSchedule,
+  parseCron,
+  type ScheduleSpec,
+} from '@/supabase/functions/_shared/schedule';
+
+export type { ScheduleSpec };
+
+const deviceTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const defaultSchedule = (): ScheduleSpec => ({
+  kind: 'cron',
+  cron: '0 6 * * *',
+  timezone: deviceTimeZone(),
+});
+
+const CRON_PRESETS = [
+  { label: 'HOURLY', cron: '0 * * * *' },
+  { label: 'DAILY 06:00', cron: '0 6 * * *' },
+  { label: 'WEEKDAYS 09:00', cron: '0 9 * * 1-5' },
+  { label: 'MONDAYS', cron: '0 6 * * 1' },
+];
+
+const INTERVAL_PRESETS = [15, 60, 360, 1440];
+
+const intervalLabel = (minutes: number) =>
+  minutes % 1440 === 0
+    ? `${minutes / 1440}D`
+    : minutes % 60 === 0
+    ? `${minutes / 60}H`
+    : `${minutes}M`;
+
+/** Returns an error message, or null when the schedule can be saved. */
+export const validateSchedule = (spec: ScheduleSpec | null) => {
+  if (!spec) return null;
+  if (spec.kind === 'interval') {
+    return spec.minutes >= MIN_INTERVAL_MINUTES
+      ? null
+      : `Interval must be at least ${MIN_INTERVAL_MINUTES} minutes.`;
+  }
+  try {
+    parseCron(spec.cron);
+  } catch (e: any) {
+    return e.message;
+  }
+  if (!isValidTimeZone(spec.timezone)) {
+    return `Unknown time zone "${spec.timezone}".`;
+  }
+  return nextRun(spec) ? null : 'This cron expression never fires.';
+};
+
+/** First run after `after`, or null for no (or an invalid) schedule. */
+export const scheduleNextRun = (raw: unknown, after = new Date()) => {
+  const spec = normalizeSchedule(raw);
+  return spec ? nextRun(spec, after) : null;
+};
+
+export const formatRunTime = (date: Date) =>
+  date.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+interface ScheduleEditorProps {
+  value: ScheduleSpec | null;
+  onChange: (value: ScheduleSpec | null) => void;
+}
+
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const error = validateSchedule(value);
+  const preview = value && !error ? nextRuns(value, 3) : [];
+
+  return (
+    <View>
+      <View style={styles.switchRow}>
+        <View>
+          <Text style={styles.switchTitle}>RECURRING SCHEDULE</Text>
+          <Text style={styles.switchSub}>
+            Cron expression or fixed interval
+          </Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(on) => onChange(on ? defaultSchedule() : null)}
+          trackColor={{ false: '#1e293b', true: 'rgba(167, 139, 250, 0.3)' }}
+          thumbColor={value ? '#A78BFA' : '#64748b'}
+        />
+      </View>
+
+      {value && (
+        <>
+          <View style={[styles.chipRow, { marginTop: 16 }]}>
+            {(['cron', 'interval'] as const).map((kind) => (
+              <TouchableOpacity
+                key={kind}
+                onPress={() => {
+                  if (kind === value.kind) return;
+                  onChange(
+                    kind === 'cron'
+                      ? defaultSchedule()
+                      : { kind: 'interval', minutes: 60 }
+                  );
+                }}
+                style={[styles.chip, value.kind === kind && styles.chipActive]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    value.kind === kind && { color: '#A78BFA' },
+                  ]}
+                >
+                  {kind.toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {value.kind === 'cron' ? (
+            <>
+              <Text style={styles.label}>
+                CRON (MIN HOUR DAY MONTH WEEKDAY)
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={value.cron}
+                onChangeText={(cron) => onChange({ ...value, cron })}
+                placeholder="0 6 * * 1-5"
+                placeholderTextColor="#475569"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={[styles.chipRow, { marginTop: 8 }]}>
+                {CRON_PRESETS.map((preset) => (
+                  <TouchableOpacity
+                    key={preset.cron}
+                    onPress={() => onChange({ ...value, cron: preset.cron })}
+                    style={[
+                      styles.chip,
+                      value.cron === preset.cron && styles.chipActive,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        value.cron === preset.cron && { color: '#A78BFA' },
+                      ]}
+                    >
+                      {preset.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>TIME ZONE</Text>
+              <TextInput
+                style={styles.input}
+                value={value.timezone}
+                onChangeText={(timezone) =>
+                  onChange({ ...value, timezone: timezone.trim() })
+                }
+                placeholder="Europe/Oslo"
+                placeholderTextColor="#475569"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </>
+          ) : (
+            <>
+              <Text style={styles.label}>EVERY (MINUTES)</Text>
+              <TextInput
+                style={styles.input}
+                value={String(value.minutes)}
+                onChangeText={(t) =>
+                  onChange({
+                    ...value,
+                    minutes: parseInt(t.replace(/\D/g, ''), 10) || 0,
+                  })
+                }
+                keyboardType="number-pad"
+              />
+              <View style={[styles.chipRow, { marginTop: 8 }]}>
+                {INTERVAL_PRESETS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    onPress={() => onChange({ ...value, minutes })}
+                    style={[
+                      styles.chip,
+                      value.minutes === minutes && styles.chipActive,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        value.minutes === minutes && { color: '#A78BFA' },
+                      ]}
+                    >
+                      {intervalLabel(minutes)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>NEXT RUNS</Text>
+          {error ? (
+            <Text style={styles.error}>{error}</Text>
+          ) : (
+            preview.map((run) => (
+              <Text key={run.toISOString()} style={styles.previewText}>
+                {formatRunTime(run)}
+              </Text>
+            ))
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#A78BFA',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  label: {
+    marginTop: 16,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(167, 139, 250, 0.1)',
+    borderColor: 'rgba(167, 139, 250, 0.3)',
+  },
+  chipText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  previewText: {
+    color: '#CBD5E1',
+    fontSize: 12,
+    marginBottom: 4,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  error: { color: '#F87171', fontSize: 12 },
+});
@@ -4,14 +4,16 @@
  * ============================================================================
  * PATH: components/scraper/SchemaBuilder.tsx
  * ARCHITECTURE:
- * - DUAL-SYNC ENGINE: Synchronizes Record<string, string> with UI SchemaField[].
+ * - DUAL-SYNC ENGINE: Synchronizes Record<string, SchemaEntry> with UI SchemaField[].
+ * - TYPED OUTPUT: Declared types/required flags are enforced by the Scrape Engine.
+ * - RECURSIVE MODEL: Object fields carry children; arrays may carry an item shape.
  * - AAA+ UX: NativeWind + Reanimated 4 for fluid field manipulation.
  * - TYPE-STRICT: Aligned with Database['public']['Tables']['scraping_jobs'].
  * - NATIVE-FIDELITY: Uses Lucide-React-Native for terminal aesthetics.
  * ============================================================================
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -24,28 +26,339 @@ import Animated, {
   FadeOutLeft,
   LinearTransition,
 } from 'react-native-reanimated';
-import { Plus, Trash2, Code, Database, Tag, Info } from 'lucide-react-native';
+import {
+  Plus,
+  Trash2,
+  Code,
+  Database,
+  Tag,
+  Info,
+  Crosshair,
+  CornerDownRight,
+  Braces,
+} from 'lucide-react-native';
 
 // UI COMPONENTS
 import { GlassCard } from '../ui/GlassCard';
 import { AAAWrapper } from '../ui/AAAWrapper';
 
+export type SchemaFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'array'
+  | 'object';
+
+export const FIELD_TYPES: SchemaFieldType[] = [
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+];
+
+/** Nesting stops here to keep prompts and the editor readable */
+const MAX_DEPTH = 3;
+
 export interface SchemaField {
   id: string;
   key: string;
-  type: 'string' | 'number' | 'boolean' | 'array';
+  type: SchemaFieldType;
   description: string;
+  required?: boolean;
+  /** Optional CSS selector (relative to the parent item for nested fields) */
+  selector?: string;
+  /** Optional JSONPath for JSON / XML / CSV sources (relative like selectors) */
+  path?: string;
+  /** Object properties, or the per-item shape of an array of objects */
+  children?: SchemaField[];
 }
 
+/** Persisted shape of a single field inside extraction_schema / target_schema */
+export type SchemaEntry = {
+  type: SchemaFieldType;
+  description: string;
+  required: boolean;
+  selector?: string;
+  path?: string;
+  fields?: Record<string, SchemaEntry>;
+};
+
 interface SchemaBuilderProps {
   /** Callback triggered whenever the schema is updated */
-  onSchemaChange: (schema: Record<string, string>) => void;
+  onSchemaChange: (schema: Record<string, SchemaEntry>) => void;
   /** Initial schema provided as a flat object (from database) */
-  initialSchema?: Record<string, string>;
+  initialSchema?: Record<string, string | Partial<SchemaEntry>>;
   /** Optional pre-defined UI fields */
   initialFields?: SchemaField[];
+  /** Renders inline (no wrapper/scroll container) for use inside forms */
+  embedded?: boolean;
 }
 
+// --- TREE HELPERS ---
+const newId = () => Math.random().toString(36).substring(2, 9);
+
+const hasChildren = (type: SchemaFieldType) =>
+  type === 'object' || type === 'array';
+
+export const fieldsToSchema = (
+  fields: SchemaField[],
+): Record<string, SchemaEntry> =>
+  fields.reduce(
+    (acc, field) => {
+      const key = field.key.trim();
+      if (!key) return acc;
+      const entry: SchemaEntry = {
+        type: field.type,
+        description: field.description,
+        required: !!field.required,
+      };
+      if (field.selector?.trim()) entry.selector = field.selector.trim();
+      if (field.path?.trim()) entry.path = field.path.trim();
+      if (hasChildren(field.type) && field.children?.length)
+        entry.fields = fieldsToSchema(field.children);
+      acc[key] = entry;
+      return acc;
+    },
+    {} as Record<string, SchemaEntry>,
+  );
+
+export const schemaToFields = (
+  schema: Record<string, string | Partial<SchemaEntry>>,
+): SchemaField[] =>
+  Object.entries(schema).map(([key, entry]) => {
+    // Legacy rows store either the bare type or a bare description
+    const spec: Partial<SchemaEntry> =
+      typeof entry === 'string'
+        ? FIELD_TYPES.includes(entry as SchemaFieldType)
+          ? { type: entry as SchemaFieldType }
+          : { description: entry }
+        : entry;
+    return {
+      id: newId(),
+      key,
+      type: spec.type && FIELD_TYPES.includes(spec.type) ? spec.type : 'string',
+      description: spec.description ?? '',
+      required: spec.required === true,
+      selector: spec.selector ?? '',
+      path: spec.path ?? '',
+      children: spec.fields ? schemaToFields(spec.fields) : undefined,
+    };
+  });
+
+const mapTree = (
+  fields: SchemaField[],
+  id: string,
+  fn: (field: SchemaField) => SchemaField | null,
+): SchemaField[] =>
+  fields.flatMap((f) => {
+    if (f.id === id) {
+      const next = fn(f);
+      return next ? [next] : [];
+    }
+    return f.children ? [{ ...f, children: mapTree(f.children, id, fn) }] : [f];
+  });
+
+const blankField = (): SchemaField => ({
+  id: newId(),
+  key: '',
+  type: 'string',
+  description: '',
+});
+
+// ----------------------------------------------------------------------------
+// 🧩 FIELD EDITOR (Recursive)
+// ----------------------------------------------------------------------------
+interface FieldEditorProps {
+  field: SchemaField;
+  index: number;
+  depth: number;
+  onUpdate: (id: string, updates: Partial<SchemaField>) => void;
+  onRemove: (id: string) => void;
+  onAddChild: (id: string) => void;
+}
+
+const FieldEditor: React.FC<FieldEditorProps> = ({
+  field,
+  index,
+  depth,
+  onUpdate,
+  onRemove,
+  onAddChild,
+}) => {
+  const types =
+    depth + 1 >= MAX_DEPTH
+      ? FIELD_TYPES.filter((t) => t !== 'object')
+      : FIELD_TYPES;
+
+  return (
+    <Animated.View
+      entering={FadeInRight.delay(index * 50)}
+      exiting={FadeOutLeft}
+      layout={LinearTransition}
+      className="mb-4"
+    >
+      <GlassCard
+        intensity={20}
+        className={`p-5 border-l-2 ${
+          depth === 0 ? 'border-l-teal-500/50' : 'border-l-indigo-500/50'
+        }`}
+      >
+        {/* PRIMARY KEY INPUT */}
+        <View className="flex-row items-center justify-between mb-4">
+          <View className="flex-row items-center flex-1 mr-4">
+            {depth === 0 ? (
+              <Tag size={14} color="#4FD1C7" />
+            ) : (
+              <CornerDownRight size={14} color="#818CF8" />
+            )}
+            <TextInput
+              placeholder="JSON_KEY (e.g. product_price)"
+              placeholderTextColor="#334155"
+              className="ml-3 flex-1 text-white font-black text-sm tracking-tight"
+              value={field.key}
+              autoCapitalize="none"
+              onChangeText={(text) =>
+                onUpdate(field.id, {
+                  key: text
+                    .toLowerCase()
+                    .replace(/\s/g, '_')
+                    .replace(/[^a-z0-9_]/g, ''),
+                })
+              }
+            />
+          </View>
+          <TouchableOpacity
+            onPress={() => onRemove(field.id)}
+            className="bg-rose-500/10 p-2 rounded-lg"
+          >
+            <Trash2 size={16} color="#F43F5E" />
+          </TouchableOpacity>
+        </View>
+
+        {/* AI HINT INPUT */}
+        <View className="flex-row items-center bg-slate-900/50 rounded-xl px-4 py-3 border border-white/5 mb-3">
+          <Info size={12} color="#94A3B8" />
+          <TextInput
+            placeholder="Neural hint for the engine..."
+            placeholderTextColor="#475569"
+            className="flex-1 text-slate-300 ml-3 text-xs italic"
+            value={field.description}
+            onChangeText={(text) => onUpdate(field.id, { description: text })}
+          />
+        </View>
+
+        {/* SELECTOR INPUT */}
+        <View className="flex-row items-center bg-slate-900/50 rounded-xl px-4 py-3 border border-white/5 mb-3">
+          <Crosshair size={12} color="#94A3B8" />
+          <TextInput
+            placeholder={
+              field.type === 'array' && field.children?.length
+                ? 'Item container selector (optional)'
+                : 'CSS selector (optional, skips AI)'
+            }
+            placeholderTextColor="#475569"
+            className="flex-1 text-cyan-300 ml-3 text-xs"
+            value={field.selector ?? ''}
+            autoCapitalize="none"
+            onChangeText={(text) => onUpdate(field.id, { selector: text })}
+          />
+        </View>
+
+        {/* DATA PATH INPUT (JSON / XML / CSV sources) */}
+        <View className="flex-row items-center bg-slate-900/50 rounded-xl px-4 py-3 border border-white/5 mb-4">
+          <Braces size={12} color="#94A3B8" />
+          <TextInput
+            placeholder={
+              field.type === 'array' && field.children?.length
+                ? 'Records path, e.g. $.items[*] (optional)'
+                : 'Data path, e.g. $.price or column name'
+            }
+            placeholderTextColor="#475569"
+            className="flex-1 text-amber-300 ml-3 text-xs"
+            value={field.path ?? ''}
+            autoCapitalize="none"
+            onChangeText={(text) => onUpdate(field.id, { path: text })}
+          />
+        </View>
+
+        {/* TYPE SELECTOR MATRIX */}
+        <View className="flex-row flex-wrap gap-2">
+          {types.map((t) => (
+            <TouchableOpacity
+              key={t}
+              activeOpacity={0.8}
+              onPress={() => onUpdate(field.id, { type: t })}
+              className={`px-4 py-2 rounded-lg border ${
+                field.type === t
+                  ? 'bg-teal-500/20 border-teal-500/50'
+                  : 'bg-transparent border-white/5'
+              }`}
+            >
+              <Text
+                className={`text-[10px] font-black tracking-widest uppercase ${
+                  field.type === t ? 'text-teal-400' : 'text-slate-600'
+                }`}
+              >
+                {t}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={() => onUpdate(field.id, { required: !field.required })}
+            className={`px-4 py-2 rounded-lg border ${
+              field.required
+                ? 'bg-rose-500/20 border-rose-500/50'
+                : 'bg-transparent border-white/5'
+            }`}
+          >
+            <Text
+              className={`text-[10px] font-black tracking-widest uppercase ${
+                field.required ? 'text-rose-400' : 'text-slate-600'
+              }`}
+            >
+              required
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* NESTED FIELDS */}
+        {hasChildren(field.type) && depth + 1 < MAX_DEPTH && (
+          <View className="mt-4 pl-3 border-l border-white/5">
+            <Text className="text-slate-500 text-[9px] font-bold tracking-widest mb-3 uppercase">
+              {field.type === 'array'
+                ? 'Item fields (leave empty for a list of values)'
+                : 'Child fields'}
+            </Text>
+            {field.children?.map((child, i) => (
+              <FieldEditor
+                key={child.id}
+                field={child}
+                index={i}
+                depth={depth + 1}
+                onUpdate={onUpdate}
+                onRemove={onRemove}
+                onAddChild={onAddChild}
+              />
+            ))}
+            <TouchableOpacity
+              onPress={() => onAddChild(field.id)}
+              activeOpacity={0.7}
+              className="flex-row items-center justify-center py-3 rounded-xl border border-dashed border-indigo-500/30"
+            >
+              <Plus size={14} color="#818CF8" />
+              <Text className="text-indigo-300 text-[10px] font-black tracking-widest ml-2">
+                ADD {field.type === 'array' ? 'ITEM' : 'CHILD'} FIELD
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </GlassCard>
+    </Animated.View>
+  );
+};
+
 /**
  * PRODUCTION SCHEMA BUILDER
  * Manages the "Extraction Blueprint" used by the Scrape Engine.
@@ -54,19 +367,13 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
   onSchemaChange,
   initialSchema,
   initialFields = [],
+  embedded = false,
 }) => {
   // --- INITIALIZATION LOGIC ---
   // Converts initialSchema (Record) into internal Fields (Array) for UI state
   const [fields, setFields] = useState<SchemaField[]>(() => {
     if (initialSchema && Object.keys(initialSchema).length > 0) {
-      return Object.entries(initialSchema).map(([key, type]) => ({
-        id: Math.random().toString(36).substring(2, 9),
-        key,
-        type: (['string', 'number', 'boolean', 'array'].includes(type)
-          ? type
-          : 'string') as any,
-        description: '',
-      }));
+      return schemaToFields(initialSchema);
     }
     return initialFields;
   });
@@ -75,47 +382,62 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
    * SYNC ENGINE
    * Updates the parent component whenever internal fields change.
    */
-  const updateParent = useCallback(
-    (currentFields: SchemaField[]) => {
-      const schemaMap = currentFields.reduce(
-        (acc, field) => {
-          if (field.key.trim()) acc[field.key.trim()] = field.type;
-          return acc;
-        },
-        {} as Record<string, string>,
-      );
-      onSchemaChange(schemaMap);
+  const commit = useCallback(
+    (updated: SchemaField[]) => {
+      setFields(updated);
+      onSchemaChange(fieldsToSchema(updated));
     },
     [onSchemaChange],
   );
 
   // --- ACTIONS ---
-  const addField = () => {
-    const newField: SchemaField = {
-      id: Math.random().toString(36).substring(2, 9),
-      key: '',
-      type: 'string',
-      description: '',
-    };
-    const updated = [...fields, newField];
-    setFields(updated);
-    updateParent(updated);
-  };
-
-  const removeField = (id: string) => {
-    const updated = fields.filter((f) => f.id !== id);
-    setFields(updated);
-    updateParent(updated);
-  };
-
-  const updateField = (id: string, updates: Partial<SchemaField>) => {
-    const updated = fields.map((f) => (f.id === id ? { ...f, ...updates } : f));
-    setFields(updated);
-    updateParent(updated);
-  };
+  const addField = () => commit([...fields, blankField()]);
+
+  const removeField = (id: string) => commit(mapTree(fields, id, () => null));
+
+  const updateField = (id: string, updates: Partial<SchemaField>) =>
+    commit(mapTree(fields, id, (f) => ({ ...f, ...updates })));
+
+  const addChild = (id: string) =>
+    commit(
+      mapTree(fields, id, (f) => ({
+        ...f,
+        children: [...(f.children ?? []), blankField()],
+      })),
+    );
+
+  const Container = embedded ? View : AAAWrapper;
+
+  const matrix = (
+    <>
+      {fields.map((field, index) => (
+        <FieldEditor
+          key={field.id}
+          field={field}
+          index={index}
+          depth={0}
+          onUpdate={updateField}
+          onRemove={removeField}
+          onAddChild={addChild}
+        />
+      ))}
+
+      {fields.length === 0 && (
+        <View className="items-center justify-center py-16 opacity-30">
+          <Code size={40} color="#475569" />
+          <Text className="text-white font-black italic mt-4 tracking-tighter">
+            LEDGER_EMPTY
+          </Text>
+          <Text className="text-slate-500 text-[10px] font-bold tracking-widest mt-2 uppercase">
+            No fields defined for extraction
+          </Text>
+        </View>
+      )}
+    </>
+  );
 
   return (
-    <AAAWrapper>
+    <Container>
       {/* HEADER UNIT */}
       <View className="flex-row items-center justify-between mb-6 px-2">
         <View className="flex-row items-center">
@@ -139,104 +461,17 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
       </View>
 
       {/* FIELD MATRIX */}
-      <ScrollView
-        showsVerticalScrollIndicator={false}
-        className="max-h-[450px]"
-        contentContainerStyle={{ paddingBottom: 20 }}
-      >
-        {fields.map((field, index) => (
-          <Animated.View
-            key={field.id}
-            entering={FadeInRight.delay(index * 50)}
-            exiting={FadeOutLeft}
-            layout={LinearTransition}
-            className="mb-4"
-          >
-            <GlassCard
-              intensity={20}
-              className="p-5 border-l-2 border-l-teal-500/50"
-            >
-              {/* PRIMARY KEY INPUT */}
-              <View className="flex-row items-center justify-between mb-4">
-                <View className="flex-row items-center flex-1 mr-4">
-                  <Tag size={14} color="#4FD1C7" />
-                  <TextInput
-                    placeholder="JSON_KEY (e.g. product_price)"
-                    placeholderTextColor="#334155"
-                    className="ml-3 flex-1 text-white font-black text-sm tracking-tight"
-                    value={field.key}
-                    autoCapitalize="none"
-                    onChangeText={(text) =>
-                      updateField(field.id, {
-                        key: text
-                          .toLowerCase()
-                          .replace(/\s/g, '_')
-                          .replace(/[^a-z0-9_]/g, ''),
-                      })
-                    }
-                  />
-                </View>
-                <TouchableOpacity
-                  onPress={() => removeField(field.id)}
-                  className="bg-rose-500/10 p-2 rounded-lg"
-                >
-                  <Trash2 size={16} color="#F43F5E" />
-                </TouchableOpacity>
-              </View>
-
-              {/* AI HINT INPUT */}
-              <View className="flex-row items-center bg-slate-900/50 rounded-xl px-4 py-3 border border-white/5 mb-4">
-                <Info size={12} color="#94A3B8" />
-                <TextInput
-                  placeholder="Neural hint for the engine..."
-                  placeholderTextColor="#475569"
-                  className="flex-1 text-slate-300 ml-3 text-xs italic"
-                  value={field.description}
-                  onChangeText={(text) =>
-                    updateField(field.id, { description: text })
-                  }
-                />
-              </View>
-
-              {/* TYPE SELECTOR MATRIX */}
-              <View className="flex-row flex-wrap gap-2">
-                {['string', 'number', 'boolean', 'array'].map((t) => (
-                  <TouchableOpacity
-                    key={t}
-                    activeOpacity={0.8}
-                    onPress={() => updateField(field.id, { type: t as any })}
-                    className={`px-4 py-2 rounded-lg border ${
-                      field.type === t
-                        ? 'bg-teal-500/20 border-teal-500/50'
-                        : 'bg-transparent border-white/5'
-                    }`}
-                  >
-                    <Text
-                      className={`text-[10px] font-black tracking-widest uppercase ${
-                        field.type === t ? 'text-teal-400' : 'text-slate-600'
-                      }`}
-                    >
-                      {t}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </GlassCard>
-          </Animated.View>
-        ))}
-
-        {fields.length === 0 && (
-          <View className="items-center justify-center py-16 opacity-30">
-            <Code size={40} color="#475569" />
-            <Text className="text-white font-black italic mt-4 tracking-tighter">
-              LEDGER_EMPTY
-            </Text>
-            <Text className="text-slate-500 text-[10px] font-bold tracking-widest mt-2 uppercase">
-              No fields defined for extraction
-            </Text>
-          </View>
-        )}
-      </ScrollView>
-    </AAAWrapper>
+      {embedded ? (
+        matrix
+      ) : (
+        <ScrollView
+          showsVerticalScrollIndicator={false}
+          className="max-h-[450px]"
+          contentContainerStyle={{ paddingBottom: 20 }}
+        >
+          {matrix}
+        </ScrollView>
+      )}
+    </Container>
   );
 };
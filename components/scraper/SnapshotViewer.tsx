@@ -0,0 +1,258 @@
+/**
+ * ============================================================================
+ * 📸 NORTH INTELLIGENCE OS: SNAPSHOT VIEWER
+ * ============================================================================
+ * PATH: components/scraper/SnapshotViewer.tsx
+ * Puts the stored page (screenshot + HTML from the private "snapshots"
+ * bucket) next to the JSON extracted from it, one captured page at a time.
+ * Paths come from extracted_data.metadata.snapshot.
+ * ============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { Camera, FileCode } from 'lucide-react-native';
+
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/supabase/database.types';
+
+type ExtractedRow = Database['public']['Tables']['extracted_data']['Row'];
+type SnapshotRef = { html: string; screenshot: string | null };
+/** The parts of extracted_data.metadata this viewer reads. */
+type SnapshotMeta = { snapshot?: SnapshotRef; page?: number; source?: string };
+
+const metaOf = (row: ExtractedRow) =>
+  (row.metadata as SnapshotMeta | null) ?? {};
+
+const SNAPSHOT_BUCKET = 'snapshots';
+const SIGNED_URL_TTL_S = 600;
+/** Long documents are cut for display; the stored file is complete. */
+const HTML_PREVIEW_CHARS = 20000;
+
+export const snapshotOf = (row: ExtractedRow): SnapshotRef | null =>
+  metaOf(row).snapshot ?? null;
+
+interface SnapshotViewerProps {
+  payloads: ExtractedRow[];
+}
+
+export const SnapshotViewer: React.FC<SnapshotViewerProps> = ({ payloads }) => {
+  const { width } = useWindowDimensions();
+  const captured = payloads.filter((p) => snapshotOf(p));
+  const [selected, setSelected] = useState(0);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [html, setHtml] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const row = captured[selected];
+  const snapshot = row ? snapshotOf(row) : null;
+  // Paths, not the parsed object, so the effect only reruns on a new page.
+  const htmlPath = snapshot?.html;
+  const screenshotPath = snapshot?.screenshot;
+
+  useEffect(() => {
+    if (!htmlPath) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setImageUrl(null);
+      setHtml(null);
+      try {
+        const bucket = supabase.storage.from(SNAPSHOT_BUCKET);
+        const { data: htmlLink } = await bucket.createSignedUrl(
+          htmlPath,
+          SIGNED_URL_TTL_S
+        );
+        const { data: imageLink } = screenshotPath
+          ? await bucket.createSignedUrl(screenshotPath, SIGNED_URL_TTL_S)
+          : { data: null };
+
+        const source = htmlLink
+          ? await fetch(htmlLink.signedUrl).then((r) => r.text())
+          : null;
+        if (cancelled) return;
+        setHtml(source);
+        setImageUrl(imageLink?.signedUrl ?? null);
+      } catch (e: any) {
+        console.error('[SNAPSHOT_FAULT]', e.message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [htmlPath, screenshotPath]);
+
+  if (!row) {
+    return (
+      <View style={styles.empty}>
+        <Camera size={40} color="#334155" />
+        <Text style={styles.emptyText}>NO SNAPSHOTS CAPTURED</Text>
+      </View>
+    );
+  }
+
+  const meta = metaOf(row);
+
+  return (
+    <View>
+      {captured.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.pageRow}>
+            {captured.map((p, i) => (
+              <TouchableOpacity
+                key={p.id}
+                onPress={() => setSelected(i)}
+                style={[styles.pageChip, i === selected && styles.pageActive]}
+              >
+                <Text
+                  style={[
+                    styles.pageText,
+                    i === selected && { color: '#4FD1C7' },
+                  ]}
+                >
+                  PAGE {metaOf(p).page ?? i + 1}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+
+      <Text style={styles.source} numberOfLines={1}>
+        {meta.source ?? 'UNKNOWN_SOURCE'}
+      </Text>
+
+      {loading ? (
+        <ActivityIndicator color="#4FD1C7" style={{ marginVertical: 40 }} />
+      ) : (
+        <View style={[styles.compare, width >= 1024 && styles.compareWide]}>
+          <View style={styles.pane}>
+            {imageUrl && (
+              <>
+                <View style={styles.paneHeader}>
+                  <Camera size={12} color="#64748B" />
+                  <Text style={styles.paneTitle}>SCREENSHOT</Text>
+                </View>
+                <Image
+                  source={{ uri: imageUrl }}
+                  style={styles.screenshot}
+                  resizeMode="contain"
+                />
+              </>
+            )}
+            <View style={styles.paneHeader}>
+              <FileCode size={12} color="#64748B" />
+              <Text style={styles.paneTitle}>HTML SNAPSHOT</Text>
+            </View>
+            <ScrollView style={styles.codeBox} nestedScrollEnabled>
+              <Text style={styles.code}>
+                {html?.slice(0, HTML_PREVIEW_CHARS) ?? 'Snapshot unavailable.'}
+              </Text>
+            </ScrollView>
+          </View>
+
+          <View style={styles.pane}>
+            <View style={styles.paneHeader}>
+              <FileCode size={12} color="#4FD1C7" />
+              <Text style={[styles.paneTitle, { color: '#4FD1C7' }]}>
+                EXTRACTED JSON
+              </Text>
+            </View>
+            <ScrollView style={styles.codeBox} nestedScrollEnabled>
+              <Text style={styles.code}>
+                {JSON.stringify(row.content_structured, null, 2)}
+              </Text>
+            </ScrollView>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    opacity: 0.5,
+  },
+  emptyText: {
+    color: '#64748B',
+    fontSize: 12,
+    fontWeight: '900',
+    letterSpacing: 1,
+    marginTop: 16,
+  },
+  pageRow: { flexDirection: 'row', gap: 8, marginBottom: 16 },
+  pageChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  pageActive: {
+    backgroundColor: 'rgba(79, 209, 199, 0.1)',
+    borderColor: 'rgba(79, 209, 199, 0.3)',
+  },
+  pageText: {
+    color: '#64748b',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1,
+  },
+  source: { color: '#64748B', fontSize: 11, marginBottom: 16 },
+  compare: { gap: 16 },
+  compareWide: { flexDirection: 'row' },
+  pane: { flex: 1 },
+  paneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  paneTitle: {
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+  },
+  screenshot: {
+    width: '100%',
+    height: 480,
+    borderRadius: 16,
+    backgroundColor: '#020617',
+    marginBottom: 16,
+  },
+  codeBox: {
+    maxHeight: 360,
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 16,
+  },
+  code: {
+    color: '#94A3B8',
+    fontSize: 11,
+    lineHeight: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+});
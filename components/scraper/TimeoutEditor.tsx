@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * ⏱️ NORTH INTELLIGENCE OS: STAGE TIMEOUT CONFIGURATOR
+ * ============================================================================
+ * PATH: components/scraper/TimeoutEditor.tsx
+ * Hard limits the Scrape Engine enforces per stage
+ * (public.scrapers.timeouts). Off = engine defaults.
+ * - FETCH: each plain HTTP request (browser renders use the render timeout).
+ * - CLEAN: parsing, selector passes and page reduction for one page.
+ * - AI: all model calls for one page.
+ * - COMMIT: each write of extracted records or crawl links.
+ * - JOB: the whole run; checked between stages.
+ * ============================================================================
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+
+/** Persisted shape; mirrors scrape-engine/control.ts */
+export type TimeoutSpec = {
+  fetch_ms: number;
+  clean_ms: number;
+  ai_ms: number;
+  commit_ms: number;
+  job_ms: number;
+};
+
+export const DEFAULT_TIMEOUTS: TimeoutSpec = {
+  fetch_ms: 30000,
+  clean_ms: 15000,
+  ai_ms: 120000,
+  commit_ms: 15000,
+  job_ms: 300000,
+};
+
+/** Server-side ceilings (TIMEOUT_LIMITS in scrape-engine) */
+export const TIMEOUT_LIMITS: TimeoutSpec = {
+  fetch_ms: 120000,
+  clean_ms: 60000,
+  ai_ms: 300000,
+  commit_ms: 60000,
+  job_ms: 540000,
+};
+
+const FIELDS: { key: keyof TimeoutSpec; label: string }[] = [
+  { key: 'fetch_ms', label: 'FETCH (S)' },
+  { key: 'clean_ms', label: 'CLEAN (S)' },
+  { key: 'ai_ms', label: 'AI (S)' },
+  { key: 'commit_ms', label: 'COMMIT (S)' },
+  { key: 'job_ms', label: 'JOB (S)' },
+];
+
+const fromSeconds = (text: string, max: number) =>
+  Math.min(max, (parseInt(text.replace(/\D/g, ''), 10) || 0) * 1000);
+
+interface TimeoutEditorProps {
+  value: TimeoutSpec | null;
+  onChange: (value: TimeoutSpec | null) => void;
+}
+
+export const TimeoutEditor: React.FC<TimeoutEditorProps> = ({
+  value,
+  onChange,
+}) => (
+  <View>
+    <View style={styles.switchRow}>
+      <View>
+        <Text style={styles.switchTitle}>STAGE TIMEOUTS</Text>
+        <Text style={styles.switchSub}>
+          Default: fetch 30s, clean 15s, AI 120s, commit 15s, job 300s
+        </Text>
+      </View>
+      <Switch
+        value={!!value}
+        onValueChange={(on) => onChange(on ? DEFAULT_TIMEOUTS : null)}
+        trackColor={{ false: '#1e293b', true: 'rgba(244, 114, 182, 0.3)' }}
+        thumbColor={value ? '#F472B6' : '#64748b'}
+      />
+    </View>
+
+    {value && (
+      <View style={styles.limitRow}>
+        {FIELDS.map(({ key, label }) => (
+          <View key={key} style={styles.limitField}>
+            <Text style={styles.label}>{label}</Text>
+            <TextInput
+              style={styles.input}
+              defaultValue={String(value[key] / 1000)}
+              onChangeText={(t) =>
+                onChange({
+                  ...value,
+                  [key]: fromSeconds(t, TIMEOUT_LIMITS[key]),
+                })
+              }
+              keyboardType="number-pad"
+            />
+          </View>
+        ))}
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchTitle: {
+    color: '#F472B6',
+    fontWeight: '800',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  switchSub: { color: '#64748b', fontSize: 11, marginTop: 2 },
+  label: {
+    marginTop: 16,
+    color: '#64748B',
+    fontSize: 10,
+    fontWeight: '900',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#020617',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 14,
+    color: '#60A5FA',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  limitRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
+  limitField: { flexGrow: 1, minWidth: 90 },
+});
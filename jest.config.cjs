@@ -0,0 +1,13 @@
+// FILE: jest.config.cjs
+// PURPOSE: Unit tests for the Deno edge functions, run under Node.
+
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/supabase/functions"],
+  testMatch: ["**/*.test.ts"],
+  // Bare specifiers from supabase/functions/import_map.json
+  moduleNameMapper: {
+    "^supabase$": "@supabase/supabase-js",
+  },
+  setupFiles: ["<rootDir>/supabase/functions/jest.setup.cjs"],
+};
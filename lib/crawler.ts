@@ -33,3 +33,13 @@ export const createAiInsight = async (insight: TablesInsert<'ai_insights'>) => {
     throw error;
   }
 };
+
+/**
+ * Wakes the queue worker so new pending jobs start now instead of on its next
+ * cron tick. Not fatal: the cron run picks the jobs up either way.
+ */
+export const kickQueueWorker = async () => {
+  const { error } = await supabase.functions.invoke('scrape-worker');
+
+  if (error) console.error('Error waking queue worker:', error);
+};
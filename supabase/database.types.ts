@@ -52,6 +52,54 @@ export type Database = {
           },
         ]
       }
+      domain_buckets: {
+        Row: {
+          domain: string
+          refilled_at: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          domain: string
+          refilled_at?: string
+          tokens: number
+          user_id: string
+        }
+        Update: {
+          domain?: string
+          refilled_at?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      domain_rate_limits: {
+        Row: {
+          capacity: number
+          created_at: string
+          domain: string
+          id: string
+          refill_per_minute: number
+          user_id: string
+        }
+        Insert: {
+          capacity?: number
+          created_at?: string
+          domain: string
+          id?: string
+          refill_per_minute?: number
+          user_id: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          domain?: string
+          id?: string
+          refill_per_minute?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       extracted_data: {
         Row: {
           content_structured: Json
@@ -59,6 +107,7 @@ export type Database = {
           id: string
           job_id: string
           metadata: Json | null
+          scraper_id: string | null
         }
         Insert: {
           content_structured?: Json
@@ -66,6 +115,7 @@ export type Database = {
           id?: string
           job_id: string
           metadata?: Json | null
+          scraper_id?: string | null
         }
         Update: {
           content_structured?: Json
@@ -73,6 +123,7 @@ export type Database = {
           id?: string
           job_id?: string
           metadata?: Json | null
+          scraper_id?: string | null
         }
         Relationships: [
           {
@@ -82,6 +133,13 @@ export type Database = {
             referencedRelation: "scraping_jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "extracted_data_scraper_id_fkey"
+            columns: ["scraper_id"]
+            isOneToOne: false
+            referencedRelation: "scrapers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       harvested_data: {
@@ -125,6 +183,21 @@ export type Database = {
           },
         ]
       }
+      host_crawl_slots: {
+        Row: {
+          host: string
+          next_slot_at: string
+        }
+        Insert: {
+          host: string
+          next_slot_at?: string
+        }
+        Update: {
+          host?: string
+          next_slot_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -185,74 +258,283 @@ export type Database = {
         }
         Relationships: []
       }
+      queue_limits: {
+        Row: {
+          max_concurrent: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          max_concurrent?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          max_concurrent?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      robots_cache: {
+        Row: {
+          body: string
+          fetched_at: string
+          host: string
+          status: number
+        }
+        Insert: {
+          body?: string
+          fetched_at?: string
+          host: string
+          status: number
+        }
+        Update: {
+          body?: string
+          fetched_at?: string
+          host?: string
+          status?: number
+        }
+        Relationships: []
+      }
+      schema_templates: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          schema: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          schema: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          schema?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
       scrapers: {
         Row: {
+          actions: Json
+          crawl: Json | null
           created_at: string
           engine_type: string | null
           extraction_schema: Json
           id: string
+          ignore_robots: boolean
           last_run_at: string | null
+          last_run_status: Database["public"]["Enums"]["job_status"] | null
           name: string
+          next_run_at: string | null
+          pagination: Json | null
+          render: Json | null
+          request_profile: Json | null
+          retry_policy: Json | null
+          schedule: Json | null
+          snapshots: boolean
+          source_format: string
           status: string | null
           target_url: string
+          timeouts: Json | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          actions?: Json
+          crawl?: Json | null
           created_at?: string
           engine_type?: string | null
           extraction_schema?: Json
           id?: string
+          ignore_robots?: boolean
           last_run_at?: string | null
+          last_run_status?: Database["public"]["Enums"]["job_status"] | null
           name: string
+          next_run_at?: string | null
+          pagination?: Json | null
+          render?: Json | null
+          request_profile?: Json | null
+          retry_policy?: Json | null
+          schedule?: Json | null
+          snapshots?: boolean
+          source_format?: string
           status?: string | null
           target_url: string
+          timeouts?: Json | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          actions?: Json
+          crawl?: Json | null
           created_at?: string
           engine_type?: string | null
           extraction_schema?: Json
           id?: string
+          ignore_robots?: boolean
           last_run_at?: string | null
+          last_run_status?: Database["public"]["Enums"]["job_status"] | null
           name?: string
+          next_run_at?: string | null
+          pagination?: Json | null
+          render?: Json | null
+          request_profile?: Json | null
+          retry_policy?: Json | null
+          schedule?: Json | null
+          snapshots?: boolean
+          source_format?: string
           status?: string | null
           target_url?: string
+          timeouts?: Json | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      scraping_batches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          source_scraper_id: string | null
+          source_template_id: string | null
+          target_schema: Json
+          total: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          source_scraper_id?: string | null
+          source_template_id?: string | null
+          target_schema: Json
+          total?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          source_scraper_id?: string | null
+          source_template_id?: string | null
+          target_schema?: Json
+          total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scraping_batches_source_scraper_id_fkey"
+            columns: ["source_scraper_id"]
+            isOneToOne: false
+            referencedRelation: "scrapers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scraping_batches_source_template_id_fkey"
+            columns: ["source_template_id"]
+            isOneToOne: false
+            referencedRelation: "schema_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scraping_jobs: {
         Row: {
+          attempts: number
+          batch_id: string | null
+          claimed_by: string | null
+          crawl_root_id: string | null
           created_at: string | null
+          depth: number
           id: string
           last_run_at: string | null
+          lease_expires_at: string | null
+          next_attempt_at: string | null
+          parent_job_id: string | null
+          reclaims: number
+          scraper_id: string | null
           status: Database["public"]["Enums"]["job_status"] | null
           target_schema: Json | null
           url: string
           user_id: string
         }
         Insert: {
+          attempts?: number
+          batch_id?: string | null
+          claimed_by?: string | null
+          crawl_root_id?: string | null
           created_at?: string | null
+          depth?: number
           id?: string
           last_run_at?: string | null
+          lease_expires_at?: string | null
+          next_attempt_at?: string | null
+          parent_job_id?: string | null
+          reclaims?: number
+          scraper_id?: string | null
           status?: Database["public"]["Enums"]["job_status"] | null
           target_schema?: Json | null
           url: string
           user_id: string
         }
         Update: {
+          attempts?: number
+          batch_id?: string | null
+          claimed_by?: string | null
+          crawl_root_id?: string | null
           created_at?: string | null
+          depth?: number
           id?: string
           last_run_at?: string | null
+          lease_expires_at?: string | null
+          next_attempt_at?: string | null
+          parent_job_id?: string | null
+          reclaims?: number
+          scraper_id?: string | null
           status?: Database["public"]["Enums"]["job_status"] | null
           target_schema?: Json | null
           url?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scraping_jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "scraping_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scraping_jobs_crawl_root_id_fkey"
+            columns: ["crawl_root_id"]
+            isOneToOne: false
+            referencedRelation: "scraping_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scraping_jobs_parent_job_id_fkey"
+            columns: ["parent_job_id"]
+            isOneToOne: false
+            referencedRelation: "scraping_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scraping_jobs_scraper_id_fkey"
+            columns: ["scraper_id"]
+            isOneToOne: false
+            referencedRelation: "scrapers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       scraping_logs: {
         Row: {
@@ -396,13 +678,38 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancel_scraping_batch: {
+        Args: { p_batch_id: string }
+        Returns: number
+      }
+      cancel_scraping_jobs: {
+        Args: { p_job_ids: string[] }
+        Returns: number
+      }
+      claim_crawl_slot: {
+        Args: { p_delay_seconds: number; p_host: string }
+        Returns: string
+      }
+      claim_scraping_jobs: {
+        Args: { p_limit?: number; p_visibility_s?: number; p_worker: string }
+        Returns: Database["public"]["Tables"]["scraping_jobs"]["Row"][]
+      }
+      complete_scraping_job: {
+        Args: { p_attempts: number; p_job_id: string; p_rows: Json }
+        Returns: boolean
+      }
       credit_wallet: {
         Args: { p_ref_id: string; p_sats: number; p_user_id: string }
         Returns: undefined
       }
       dispatch_bulk_jobs: {
-        Args: { p_schema: Json; p_urls: string[]; p_user_id: string }
-        Returns: number
+        Args: {
+          p_name: string
+          p_scraper_id?: string
+          p_template_id?: string
+          p_urls: string[]
+        }
+        Returns: string
       }
       log_event: {
         Args: {
@@ -415,10 +722,18 @@ export type Database = {
         }
         Returns: string
       }
+      reclaim_expired_jobs: {
+        Args: { p_max_reclaims?: number }
+        Returns: number
+      }
       refresh_analytics: { Args: never; Returns: undefined }
+      take_domain_token: {
+        Args: { p_domain: string; p_user_id: string }
+        Returns: string | null
+      }
     }
     Enums: {
-      job_status: "pending" | "running" | "completed" | "failed"
+      job_status: "pending" | "running" | "completed" | "failed" | "cancelled"
       user_role: "Member" | "Premium" | "Moderator" | "Admin"
     }
     CompositeTypes: {
@@ -547,7 +862,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      job_status: ["pending", "running", "completed", "failed"],
+      job_status: ["pending", "running", "completed", "failed", "cancelled"],
       user_role: ["Member", "Premium", "Moderator", "Admin"],
     },
   },
@@ -0,0 +1,21 @@
+// supabase/functions/_shared/auth.ts
+// Caller checks for functions deployed with verify_jwt = false.
+
+import type { SupabaseClient } from "supabase";
+
+const bearerOf = (req: Request) =>
+  req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "").trim() ?? "";
+
+/** pg_cron and function-to-function calls send the service-role key. */
+export const isServiceCall = (req: Request) => {
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!key && bearerOf(req) === key;
+};
+
+/** Id of the signed-in user behind the request's JWT, or null (anon key, expired or missing token). */
+export const callerUserId = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const token = bearerOf(req);
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+};
@@ -0,0 +1,36 @@
+// supabase/functions/_shared/llm/fixture.ts
+import { emptyUsage, type LlmProvider, type LlmResult } from './types.ts';
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Offline provider for local runs and tests. Replies are deterministic:
+ * `<fixtureDir>/<sha256(prompt)>.txt` when present, else `fallback`.
+ */
+export function createFixtureProvider(
+  fixtureDir?: string,
+  fallback = '{}',
+): LlmProvider {
+  return {
+    name: 'fixture',
+    async generate(prompt: string): Promise<LlmResult> {
+      if (fixtureDir) {
+        const path = `${fixtureDir}/${await sha256(prompt)}.txt`;
+        try {
+          return { text: await Deno.readTextFile(path), usage: emptyUsage() };
+        } catch (_e) {
+          console.warn(`[LLM-FIXTURE] No fixture at ${path}, using fallback.`);
+        }
+      }
+      return { text: fallback, usage: emptyUsage() };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// supabase/functions/_shared/llm/gemini.ts
+import { GoogleGenerativeAI } from 'google-ai';
+import type { LlmProvider, LlmResult } from './types.ts';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-pro';
+
+export function createGeminiProvider(
+  apiKey: string,
+  model = DEFAULT_GEMINI_MODEL,
+): LlmProvider {
+  const client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+
+  return {
+    name: model,
+    async generate(prompt: string): Promise<LlmResult> {
+      const result = await client.generateContent(prompt);
+      const response = await result.response;
+      return {
+        text: response.text(),
+        usage: {
+          prompt_tokens: response.usageMetadata?.promptTokenCount ?? 0,
+          completion_tokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+          total_tokens: response.usageMetadata?.totalTokenCount ?? 0,
+        },
+      };
+    },
+  };
+}
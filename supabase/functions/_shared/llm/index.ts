@@ -0,0 +1,59 @@
+// supabase/functions/_shared/llm/index.ts
+import { createFixtureProvider } from './fixture.ts';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini.ts';
+import { createOpenAiProvider } from './openai.ts';
+import type { LlmProvider } from './types.ts';
+
+export type { LlmProvider, LlmResult, LlmUsage } from './types.ts';
+export { emptyUsage } from './types.ts';
+
+/** engine_type family rendered in headless Chromium: 'browser' or 'browser:<llm engine>'. */
+export const BROWSER_ENGINE = 'browser';
+
+/** The LLM part of an engine_type ('browser:openai' → 'openai'); null means the default. */
+export function llmEngineOf(engineType?: string | null): string | null {
+  if (engineType === BROWSER_ENGINE) return null;
+  if (engineType?.startsWith(`${BROWSER_ENGINE}:`)) {
+    return engineType.slice(BROWSER_ENGINE.length + 1) || null;
+  }
+  return engineType ?? null;
+}
+
+/**
+ * Maps an engine_type (scrapers.engine_type) to a provider:
+ * - 'gemini-1.5-pro' | 'gemini' | 'gemini:<model>'  → Google Gemini
+ * - 'openai' | 'openai:<model>'                      → OpenAI-compatible endpoint
+ * - 'fixture'                                        → offline deterministic replies
+ * Falls back to LLM_ENGINE, then Gemini, when engine_type is empty.
+ */
+export function resolveProvider(engineType?: string | null): LlmProvider {
+  const engine = engineType || Deno.env.get('LLM_ENGINE') || DEFAULT_GEMINI_MODEL;
+  const [family, model] = engine.split(':', 2);
+
+  if (family === 'fixture') {
+    return createFixtureProvider(
+      Deno.env.get('LLM_FIXTURE_DIR'),
+      Deno.env.get('LLM_FIXTURE_RESPONSE') ?? '{}',
+    );
+  }
+
+  if (family === 'openai') {
+    const resolvedModel = model || Deno.env.get('OPENAI_MODEL');
+    if (!resolvedModel) {
+      throw new Error('Server Config Error: Missing OPENAI_MODEL');
+    }
+    return createOpenAiProvider(
+      Deno.env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1',
+      resolvedModel,
+      Deno.env.get('OPENAI_API_KEY'),
+    );
+  }
+
+  if (family.startsWith('gemini')) {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) throw new Error('Server Config Error: Missing GEMINI_API_KEY');
+    return createGeminiProvider(apiKey, model || (family === 'gemini' ? DEFAULT_GEMINI_MODEL : family));
+  }
+
+  throw new Error(`Unsupported engine_type '${engine}'`);
+}
@@ -0,0 +1,46 @@
+// supabase/functions/_shared/llm/openai.ts
+import type { LlmProvider, LlmResult } from './types.ts';
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol: OpenAI itself,
+ * or local runtimes such as llama.cpp (`/v1`) and Ollama (`:11434/v1`).
+ */
+export function createOpenAiProvider(
+  baseUrl: string,
+  model: string,
+  apiKey?: string,
+): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: `openai:${model}`,
+    async generate(prompt: string): Promise<LlmResult> {
+      const resp = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0,
+        }),
+      });
+
+      if (!resp.ok) {
+        throw new Error(`LLM endpoint returned status ${resp.status}`);
+      }
+
+      const payload = await resp.json();
+      return {
+        text: payload.choices?.[0]?.message?.content ?? '',
+        usage: {
+          prompt_tokens: payload.usage?.prompt_tokens ?? 0,
+          completion_tokens: payload.usage?.completion_tokens ?? 0,
+          total_tokens: payload.usage?.total_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
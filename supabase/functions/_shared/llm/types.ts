@@ -0,0 +1,27 @@
+// supabase/functions/_shared/llm/types.ts
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  usage: LlmUsage;
+}
+
+/**
+ * Minimal text-in/text-out contract shared by every model backend.
+ * `name` is what gets recorded as the engine in extracted_data.metadata.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generate(prompt: string): Promise<LlmResult>;
+}
+
+export const emptyUsage = (): LlmUsage => ({
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+});
@@ -0,0 +1,10 @@
+// supabase/functions/_shared/queue.ts
+// Lease settings shared by scrape-worker (claims) and scrape-engine (direct starts).
+
+/** Longer than the edge wall-clock limit, so only dead invocations lose their lease. */
+export const DEFAULT_VISIBILITY_S = 600;
+
+export const visibilityTimeoutS = () =>
+  Number(Deno.env.get("QUEUE_VISIBILITY_S")) || DEFAULT_VISIBILITY_S;
+
+export const leaseUntil = () => new Date(Date.now() + visibilityTimeoutS() * 1000).toISOString();
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@jest/globals";
+import { nextRun, nextRuns, normalizeSchedule, parseCron, type ScheduleSpec } from "./schedule.ts";
+
+const runs = (spec: ScheduleSpec, count: number, after: string) =>
+  nextRuns(spec, count, new Date(after)).map((d) => d.toISOString());
+
+describe("parseCron", () => {
+  it("expands lists, ranges, steps, names and macros", () => {
+    const fields = parseCron("*/20 9-17/4 1,15 JAN-MAR mon-fri");
+
+    expect([...fields.minute.values]).toEqual([0, 20, 40]);
+    expect([...fields.hour.values]).toEqual([9, 13, 17]);
+    expect([...fields.dayOfMonth.values]).toEqual([1, 15]);
+    expect([...fields.month.values]).toEqual([1, 2, 3]);
+    expect([...fields.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("@daily").hour.values]).toEqual([0]);
+  });
+
+  it("treats weekday 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").dayOfWeek.values]).toEqual([0]);
+  });
+
+  it.each(["* * * *", "60 * * * *", "0 5-1 * * *", "*/0 * * * *"])("rejects %j", (cron) => {
+    expect(() => parseCron(cron)).toThrow();
+  });
+});
+
+describe("normalizeSchedule", () => {
+  it("defaults the time zone to UTC", () => {
+    expect(normalizeSchedule({ kind: "cron", cron: " 0 6 * * * " })).toEqual({ kind: "cron", cron: "0 6 * * *", timezone: "UTC" });
+  });
+
+  it("rejects short intervals, bad cron and unknown zones", () => {
+    expect(normalizeSchedule({ kind: "interval", minutes: 2 })).toBeNull();
+    expect(normalizeSchedule({ kind: "cron", cron: "nope" })).toBeNull();
+    expect(normalizeSchedule({ kind: "cron", cron: "0 6 * * *", timezone: "Mars/Olympus" })).toBeNull();
+  });
+});
+
+describe("nextRun", () => {
+  const oslo = (cron: string): ScheduleSpec => ({ kind: "cron", cron, timezone: "Europe/Oslo" });
+
+  it("follows the zone's offset", () => {
+    expect(runs(oslo("0 6 * * *"), 1, "2026-07-01T12:00:00Z")).toEqual(["2026-07-02T04:00:00.000Z"]);
+    expect(runs(oslo("0 6 * * *"), 1, "2026-12-01T12:00:00Z")).toEqual(["2026-12-02T05:00:00.000Z"]);
+  });
+
+  it("moves a time skipped by spring-forward to after the gap", () => {
+    // 29 March 2026: 02:00 CET jumps to 03:00 CEST, so 02:30 becomes 03:30.
+    expect(runs(oslo("30 2 * * *"), 2, "2026-03-28T12:00:00Z"))
+      .toEqual(["2026-03-29T01:30:00.000Z", "2026-03-30T00:30:00.000Z"]);
+  });
+
+  it("runs a time repeated by fall-back once", () => {
+    // 25 October 2026: 03:00 CEST falls back to 02:00 CET, so 02:30 happens twice.
+    expect(runs(oslo("30 2 * * *"), 2, "2026-10-24T12:00:00Z"))
+      .toEqual(["2026-10-25T00:30:00.000Z", "2026-10-26T01:30:00.000Z"]);
+  });
+
+  it("matches either restricted day field", () => {
+    const spec: ScheduleSpec = { kind: "cron", cron: "0 9 1 * MON", timezone: "UTC" };
+
+    expect(runs(spec, 3, "2026-11-01T00:00:00Z"))
+      .toEqual(["2026-11-01T09:00:00.000Z", "2026-11-02T09:00:00.000Z", "2026-11-09T09:00:00.000Z"]);
+  });
+
+  it("returns null for dates that never occur", () => {
+    expect(nextRun({ kind: "cron", cron: "0 0 31 2 *", timezone: "UTC" }, new Date("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+
+  it("adds intervals to the previous run", () => {
+    expect(runs({ kind: "interval", minutes: 90 }, 2, "2026-01-01T00:00:00Z"))
+      .toEqual(["2026-01-01T01:30:00.000Z", "2026-01-01T03:00:00.000Z"]);
+  });
+});
@@ -0,0 +1,207 @@
+// supabase/functions/_shared/schedule.ts
+// Recurring scraper schedules (public.scrapers.schedule). Plain TypeScript with
+// no Deno APIs: scrape-worker enqueues with it and the app previews with it,
+// so both always agree on the next run.
+//
+//   { kind: "cron", cron: "0 6 * * 1-5", timezone: "Europe/Oslo" }
+//   { kind: "interval", minutes: 90 }
+//
+// Cron: minute hour day-of-month month day-of-week, with *, lists, ranges,
+// steps, JAN-DEC / SUN-SAT names and the @hourly/@daily/@weekly/@monthly/
+// @yearly macros. As in Vixie cron, a restricted day-of-month and
+// day-of-week match when either does.
+
+export type ScheduleSpec =
+  | { kind: "cron"; cron: string; timezone: string }
+  | { kind: "interval"; minutes: number };
+
+/** Shortest interval accepted; the worker ticks once a minute. */
+export const MIN_INTERVAL_MINUTES = 5;
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface CronField {
+  values: Set<number>;
+  /** Written as "*" (matters for the day-of-month / day-of-week rule). */
+  any: boolean;
+}
+
+export interface CronFields {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+function parseField(text: string, label: string, min: number, max: number, names?: string[], offset = 0): CronField {
+  const values = new Set<number>();
+  const value = (token: string) => {
+    const named = names?.indexOf(token.toUpperCase()) ?? -1;
+    const n = named >= 0 ? named + offset : Number(token);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`Invalid ${label}: ${token}`);
+    return n;
+  };
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid ${label} step: ${part}`);
+
+    let [from, to] = [min, max];
+    if (range !== "*") {
+      const [start, end] = range.split("-");
+      from = value(start);
+      to = end === undefined ? (stepText === undefined ? from : max) : value(end);
+      if (to < from) throw new Error(`Invalid ${label} range: ${range}`);
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+
+  return { values, any: text === "*" };
+}
+
+/** Throws with a readable message when the expression is invalid. */
+export function parseCron(expression: string): CronFields {
+  const fields = (MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error("Cron needs 5 fields: minute hour day month weekday");
+
+  const dayOfWeek = parseField(fields[4], "weekday", 0, 7, DAY_NAMES);
+  // 7 is Sunday too.
+  if (dayOfWeek.values.delete(7)) dayOfWeek.values.add(0);
+
+  return {
+    minute: parseField(fields[0], "minute", 0, 59),
+    hour: parseField(fields[1], "hour", 0, 23),
+    dayOfMonth: parseField(fields[2], "day of month", 1, 31),
+    month: parseField(fields[3], "month", 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch (_e) {
+    return false;
+  }
+}
+
+/** Null for anything the scheduler cannot run (bad cron, unknown zone, too-short interval). */
+export function normalizeSchedule(raw: unknown): ScheduleSpec | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const spec = raw as Record<string, unknown>;
+
+  if (spec.kind === "interval") {
+    const minutes = Math.round(Number(spec.minutes));
+    return Number.isFinite(minutes) && minutes >= MIN_INTERVAL_MINUTES ? { kind: "interval", minutes } : null;
+  }
+  if (spec.kind === "cron" && typeof spec.cron === "string") {
+    const timezone = typeof spec.timezone === "string" && spec.timezone ? spec.timezone : "UTC";
+    try {
+      parseCron(spec.cron);
+    } catch (_e) {
+      return null;
+    }
+    return isValidTimeZone(timezone) ? { kind: "cron", cron: spec.cron.trim(), timezone } : null;
+  }
+  return null;
+}
+
+// --- TIME ZONES ---
+// Wall-clock times are handled as "fake UTC" epoch milliseconds, so the
+// Date UTC getters read the local fields directly.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(instant: number, timezone: string): number {
+  let format = formatters.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(instant).map((p) => [p.type, Number(p.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Instants showing `wall` on the zone's clock: two inside a fall-back hour,
+ * otherwise one. A time skipped by a spring-forward gap is shifted forward
+ * by the gap.
+ */
+function instantsOf(wall: number, timezone: string): number[] {
+  const offsetAt = (instant: number) => wallClock(instant, timezone) - instant;
+  // Offsets either side of any DST change near this wall time.
+  const candidates = [...new Set([wall - offsetAt(wall - 43_200_000), wall - offsetAt(wall + 43_200_000)])]
+    .sort((a, b) => a - b);
+  const exact = candidates.filter((instant) => wallClock(instant, timezone) === wall);
+  return exact.length > 0 ? exact : [candidates[candidates.length - 1]];
+}
+
+// --- NEXT RUN ---
+
+/** Upper bound on search steps; an impossible date (e.g. 31 Feb) yields null. */
+const SEARCH_LIMIT = 20_000;
+
+function nextCron(fields: CronFields, timezone: string, after: Date): Date | null {
+  const dayMatches = (day: Date) => {
+    const dom = fields.dayOfMonth.values.has(day.getUTCDate());
+    const dow = fields.dayOfWeek.values.has(day.getUTCDay());
+    if (fields.dayOfMonth.any) return dow;
+    if (fields.dayOfWeek.any) return dom;
+    return dom || dow;
+  };
+
+  const start = wallClock(after.getTime(), timezone);
+  let wall = start - (start % 60_000) + 60_000;
+
+  for (let i = 0; i < SEARCH_LIMIT; i++) {
+    const t = new Date(wall);
+    const [y, mo, d, h] = [t.getUTCFullYear(), t.getUTCMonth(), t.getUTCDate(), t.getUTCHours()];
+
+    if (!fields.month.values.has(mo + 1)) wall = Date.UTC(y, mo + 1, 1);
+    else if (!dayMatches(t)) wall = Date.UTC(y, mo, d + 1);
+    else if (!fields.hour.values.has(h)) wall = Date.UTC(y, mo, d, h + 1);
+    else if (!fields.minute.values.has(t.getUTCMinutes())) wall += 60_000;
+    else {
+      // Within a repeated hour the earlier instant can precede `after`.
+      const instant = instantsOf(wall, timezone).find((i) => i > after.getTime());
+      if (instant !== undefined) return new Date(instant);
+      wall += 60_000;
+    }
+  }
+  return null;
+}
+
+/** First run strictly after `after`, or null when the schedule never fires. */
+export function nextRun(spec: ScheduleSpec, after: Date = new Date()): Date | null {
+  if (spec.kind === "interval") return new Date(after.getTime() + spec.minutes * 60_000);
+  return nextCron(parseCron(spec.cron), spec.timezone, after);
+}
+
+export function nextRuns(spec: ScheduleSpec, count: number, after: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = after;
+  while (runs.length < count && (cursor = nextRun(spec, cursor))) runs.push(cursor);
+  return runs;
+}
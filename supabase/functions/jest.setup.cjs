@@ -0,0 +1,4 @@
+// Minimal Deno global for edge modules that read configuration at call time.
+globalThis.Deno = {
+  env: { get: (name) => process.env[name] },
+};
@@ -1,13 +1,12 @@
 import { serve } from "std/http/server.ts";
 import { createClient } from "supabase";
+import { llmEngineOf, resolveProvider } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent';
-
 serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -19,7 +18,7 @@ serve(async (req: Request) => {
   );
 
   try {
-    const { query, job_id } = await req.json();
+    const { query, job_id, scraper_id } = await req.json();
 
     let queryBuilder = supabase
       .from('extracted_data')
@@ -46,19 +45,31 @@ serve(async (req: Request) => {
       INSTRUCTION: Answer based on the data.
     `;
 
-    const apiResp = await fetch(
-      `${GEMINI_URL}?key=${Deno.env.get('GEMINI_API_KEY')}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: `${systemPrompt}\n\nUSER: ${query}` }] }]
-        }),
-      },
-    );
+    // Provider follows the scraper's engine_type (looked up via the job when
+    // only job_id is sent); LLM_ENGINE, then Gemini, when unset (see _shared/llm).
+    let scraperId: string | null = scraper_id ?? null;
+    if (!scraperId && job_id) {
+      const { data: job } = await supabase
+        .from('scraping_jobs')
+        .select('scraper_id')
+        .eq('id', job_id)
+        .maybeSingle();
+      scraperId = job?.scraper_id ?? null;
+    }
+
+    let engineType: string | null = null;
+    if (scraperId) {
+      const { data: scraper } = await supabase
+        .from('scrapers')
+        .select('engine_type')
+        .eq('id', scraperId)
+        .maybeSingle();
+      engineType = llmEngineOf(scraper?.engine_type);
+    }
 
-    const geminiData = await apiResp.json();
-    const aiResponse = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || 'FAIL: Neural Timeout.';
+    const provider = resolveProvider(engineType);
+    const { text } = await provider.generate(`${systemPrompt}\n\nUSER: ${query}`);
+    const aiResponse = text || 'FAIL: Neural Timeout.';
 
     if (job_id && aiResponse !== 'FAIL') {
       await supabase.from('ai_insights').insert({
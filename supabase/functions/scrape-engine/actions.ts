@@ -0,0 +1,160 @@
+/**
+ * ============================================================================
+ * 🎬 APEXSCRAPE: SCRIPTED INTERACTION STEPS
+ * ============================================================================
+ * `scrapers.actions` is an ordered list run in the browser after navigation
+ * and before extraction (browser engine only):
+ *   click | type | select | wait | scroll | press
+ * A failing step stops the script unless it is marked `optional` (e.g. a
+ * cookie banner that only shows up sometimes). Every step reports back and
+ * is logged by the caller.
+ * ============================================================================
+ */
+
+export type ActionType = "click" | "type" | "select" | "wait" | "scroll" | "press";
+
+export type PageAction = {
+  type: ActionType;
+  selector?: string;
+  text?: string;
+  value?: string;
+  key?: string;
+  ms?: number;
+  optional?: boolean;
+};
+
+export type ActionStep = {
+  index: number;
+  type: ActionType;
+  ok: boolean;
+  ms: number;
+  error?: string;
+};
+
+/** Hard ceilings regardless of configuration. */
+export const ACTION_LIMIT = 25;
+export const ACTION_WAIT_LIMIT_MS = 30_000;
+
+const NEEDS_SELECTOR: ActionType[] = ["click", "type", "select"];
+
+const str = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+/** Drops malformed steps (unknown type, missing selector/key) instead of failing the job. */
+export function normalizeActions(raw: unknown): PageAction[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((a): a is Record<string, unknown> => !!a && typeof a === "object" && !Array.isArray(a))
+    .map((a): PageAction => ({
+      type: a.type as ActionType,
+      selector: str(a.selector),
+      text: typeof a.text === "string" ? a.text : undefined,
+      value: typeof a.value === "string" ? a.value : undefined,
+      key: str(a.key),
+      ms: a.ms === undefined ? undefined : Math.min(ACTION_WAIT_LIMIT_MS, Math.max(0, Number(a.ms) || 0)),
+      optional: a.optional === true,
+    }))
+    .filter((a) =>
+      ["click", "type", "select", "wait", "scroll", "press"].includes(a.type) &&
+      (!NEEDS_SELECTOR.includes(a.type) || !!a.selector) &&
+      (a.type !== "press" || !!a.key)
+    )
+    .slice(0, ACTION_LIMIT);
+}
+
+/** Human-readable one-liner for logs. */
+export function describeAction(action: PageAction): string {
+  switch (action.type) {
+    case "click":
+      return `click ${action.selector}`;
+    case "type":
+      return `type into ${action.selector}`;
+    case "select":
+      return `select "${action.value ?? ""}" in ${action.selector}`;
+    case "wait":
+      return action.selector ? `wait for ${action.selector}` : `wait ${action.ms ?? 1000}ms`;
+    case "scroll":
+      return action.selector ? `scroll to ${action.selector}` : "scroll to bottom";
+    case "press":
+      return `press ${action.key}`;
+  }
+}
+
+/**
+ * Puppeteer script for the render service's /function endpoint. Runs in the
+ * browser service, not in Deno: navigates, replays the steps, then applies
+ * the usual render waits and returns { status, html, steps, screenshot }
+ * (full-page JPEG as base64, only when context.screenshot is set).
+ */
+export const ACTION_SCRIPT = `
+const scrollToBottom = async () => {
+  let last = -1;
+  for (let i = 0; i < 40 && document.body.scrollHeight !== last; i++) {
+    last = document.body.scrollHeight;
+    window.scrollTo(0, last);
+    await new Promise((r) => setTimeout(r, 400));
+  }
+};
+
+export default async function ({ page, context }) {
+  const { url, userAgent, headers, cookies, actions, waitUntil, waitForSelector, scrollToBottom: scrollAfter, networkIdle, timeout, screenshot } = context;
+  await page.setUserAgent(userAgent);
+  await page.setExtraHTTPHeaders(headers);
+  if (cookies.length > 0) await page.setCookie(...cookies);
+  const nav = await page.goto(url, { waitUntil, timeout });
+  const settle = () => networkIdle ? page.waitForNetworkIdle({ idleTime: 500, timeout }).catch(() => {}) : null;
+
+  const steps = [];
+  for (const [index, action] of actions.entries()) {
+    const started = Date.now();
+    try {
+      switch (action.type) {
+        case "click":
+          await page.waitForSelector(action.selector, { visible: true, timeout });
+          await page.click(action.selector);
+          await settle();
+          break;
+        case "type":
+          await page.waitForSelector(action.selector, { visible: true, timeout });
+          await page.type(action.selector, action.text ?? "");
+          break;
+        case "select":
+          await page.waitForSelector(action.selector, { timeout });
+          await page.select(action.selector, action.value ?? "");
+          await settle();
+          break;
+        case "wait":
+          if (action.selector) await page.waitForSelector(action.selector, { timeout });
+          else await new Promise((r) => setTimeout(r, action.ms ?? 1000));
+          break;
+        case "scroll":
+          if (action.selector) await page.$eval(action.selector, (el) => el.scrollIntoView());
+          else await page.evaluate(scrollToBottom);
+          await settle();
+          break;
+        case "press":
+          await page.keyboard.press(action.key);
+          await settle();
+          break;
+      }
+      steps.push({ index, type: action.type, ok: true, ms: Date.now() - started });
+    } catch (e) {
+      steps.push({ index, type: action.type, ok: false, ms: Date.now() - started, error: String(e?.message ?? e) });
+      if (!action.optional) break;
+    }
+  }
+
+  if (waitForSelector) await page.waitForSelector(waitForSelector, { timeout }).catch(() => {});
+  if (scrollAfter) await page.evaluate(scrollToBottom);
+
+  return {
+    data: {
+      status: nav ? nav.status() : 200,
+      html: await page.content(),
+      steps,
+      screenshot: screenshot ? await page.screenshot({ fullPage: true, type: "jpeg", quality: 70, encoding: "base64" }) : null,
+    },
+    type: "application/json",
+  };
+}
+`;
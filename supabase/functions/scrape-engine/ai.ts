@@ -0,0 +1,103 @@
+/**
+ * ============================================================================
+ * 🤖 APEXSCRAPE: LLM EXTRACTION PASS
+ * ============================================================================
+ * Sends reduced page content (see reducer.ts) to the configured provider
+ * (see _shared/llm) and asks for JSON.
+ * Unparseable output is salvaged locally first, then re-prompted with the
+ * parse error (bounded by `maxRepairs`); every attempt reports its tokens.
+ * ============================================================================
+ */
+
+import { emptyUsage, type LlmProvider, type LlmUsage } from "../_shared/llm/index.ts";
+import { ScrapeError } from "./errors.ts";
+import { parseTolerant } from "./json-repair.ts";
+
+export type AiUsage = LlmUsage;
+
+export interface AiAttempt {
+  attempt: number;
+  kind: "initial" | "repair";
+  ok: boolean;
+  error?: string;
+  usage: AiUsage;
+}
+
+export interface AiExtraction {
+  data: Record<string, unknown>;
+  /** Self-reported certainty (0-1) per top-level key; empty unless requested. */
+  confidence: Record<string, number>;
+  attempts: number;
+  usage: AiUsage;
+}
+
+interface ExtractOptions {
+  /** Re-prompts allowed after the initial call when the output won't parse. */
+  maxRepairs?: number;
+  /** Ask the model for a `_confidence` map alongside the data. */
+  withConfidence?: boolean;
+  onAttempt?: (attempt: AiAttempt) => Promise<void> | void;
+}
+
+export async function extractWithLlm(
+  provider: LlmProvider,
+  content: string,
+  schema: unknown,
+  { maxRepairs = 2, withConfidence = false, onAttempt }: ExtractOptions = {},
+): Promise<AiExtraction> {
+  const total = emptyUsage();
+  const confidenceRule = withConfidence
+    ? `Also include "_confidence": { "<field>": 0-1 } rating how certain each top-level value is.`
+    : "";
+
+  let prompt = `
+    EXTRACT JSON DATA.
+    SCHEMA: ${JSON.stringify(schema)}
+    CONTENT: ${content}
+    RULES: Return ONLY valid JSON. No markdown. No Code Blocks. ${confidenceRule}
+  `;
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const { text: textResponse, usage } = await provider.generate(prompt);
+    total.prompt_tokens += usage.prompt_tokens;
+    total.completion_tokens += usage.completion_tokens;
+    total.total_tokens += usage.total_tokens;
+
+    const parsed = parseTolerant(textResponse);
+    await onAttempt?.({
+      attempt,
+      kind: attempt === 1 ? "initial" : "repair",
+      ok: parsed.ok,
+      error: parsed.ok ? undefined : parsed.error,
+      usage,
+    });
+
+    if (parsed.ok) {
+      const { _confidence, ...data } = parsed.value;
+      return { data, confidence: readConfidence(_confidence), attempts: attempt, usage: total };
+    }
+
+    console.error(`JSON Parse Fail (attempt ${attempt}): ${parsed.error}. AI Output:`, textResponse);
+
+    // Repairs only resend the broken output, not the page, to keep them cheap.
+    prompt = `
+      REPAIR JSON OUTPUT.
+      SCHEMA: ${JSON.stringify(schema)}
+      PARSE ERROR: ${parsed.error}
+      PREVIOUS OUTPUT: ${textResponse.substring(0, 20000)}
+      RULES: Return ONLY the corrected JSON object matching SCHEMA. No markdown. No Code Blocks. ${confidenceRule}
+    `;
+  }
+
+  throw new ScrapeError("ai_parse", `AI produced invalid JSON after ${maxRepairs + 1} attempts.`);
+}
+
+function readConfidence(raw: unknown): Record<string, number> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw)
+      .map(([key, value]) => [key, Number(value)] as const)
+      .filter(([, value]) => Number.isFinite(value))
+      .map(([key, value]) => [key, Math.min(1, Math.max(0, value))]),
+  );
+}
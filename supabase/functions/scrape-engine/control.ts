@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * 🛑 APEXSCRAPE: CANCELLATION & STAGE TIMEOUTS
+ * ============================================================================
+ * - CANCEL: cancel_scraping_jobs() marks a job cancelled; a running engine
+ *   notices at its next checkpoint (before fetch, clean, ai and commit) and
+ *   stops without writing anything further.
+ * - TIMEOUTS: `scrapers.timeouts` ({ fetch_ms, clean_ms, ai_ms, commit_ms,
+ *   job_ms }), defaults when unset:
+ *   - fetch: hard limit per plain HTTP request, body included (browser
+ *     renders keep render.timeout_ms).
+ *   - clean: parsing, the selector / structured-data passes and page
+ *     reduction for one page.
+ *   - ai: hard limit on the model calls for one page.
+ *   - commit: each write of results (extracted record, crawl frontier).
+ *   - job: the whole invocation, enforced at every checkpoint. Kept below
+ *     the queue lease so a slow job fails before it is reclaimed.
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+import { ScrapeError } from "./errors.ts";
+
+export type Stage = "fetch" | "clean" | "ai" | "commit";
+
+export interface StageTimeouts {
+  fetchMs: number;
+  cleanMs: number;
+  aiMs: number;
+  commitMs: number;
+  jobMs: number;
+}
+
+export const DEFAULT_TIMEOUTS: StageTimeouts = {
+  fetchMs: 30_000,
+  cleanMs: 15_000,
+  aiMs: 120_000,
+  commitMs: 15_000,
+  jobMs: 300_000,
+};
+
+/** Upper bounds regardless of configuration (job stays under the 600s lease). */
+export const TIMEOUT_LIMITS: StageTimeouts = {
+  fetchMs: 120_000,
+  cleanMs: 60_000,
+  aiMs: 300_000,
+  commitMs: 60_000,
+  jobMs: 540_000,
+};
+
+const clampMs = (value: unknown, fallback: number, max: number) => {
+  const n = Number(value ?? fallback);
+  return Math.min(max, Math.max(1_000, Number.isFinite(n) ? Math.floor(n) : fallback));
+};
+
+export function normalizeTimeouts(raw: unknown): StageTimeouts {
+  const spec = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  return {
+    fetchMs: clampMs(spec.fetch_ms, DEFAULT_TIMEOUTS.fetchMs, TIMEOUT_LIMITS.fetchMs),
+    cleanMs: clampMs(spec.clean_ms, DEFAULT_TIMEOUTS.cleanMs, TIMEOUT_LIMITS.cleanMs),
+    aiMs: clampMs(spec.ai_ms, DEFAULT_TIMEOUTS.aiMs, TIMEOUT_LIMITS.aiMs),
+    commitMs: clampMs(spec.commit_ms, DEFAULT_TIMEOUTS.commitMs, TIMEOUT_LIMITS.commitMs),
+    jobMs: clampMs(spec.job_ms, DEFAULT_TIMEOUTS.jobMs, TIMEOUT_LIMITS.jobMs),
+  };
+}
+
+/** Thrown at a checkpoint once the job has been cancelled; not a failure. */
+export class JobCancelledError extends Error {
+  constructor(readonly stage: Stage) {
+    super(`Job cancelled before the ${stage} stage`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Runs `work` with a hard deadline. The signal aborts on expiry; work that
+ * cannot be aborted (model calls) is abandoned. Synchronous work (HTML
+ * parsing) cannot be pre-empted, so a stage that overran fails once it
+ * returns instead.
+ */
+export async function withTimeout<T>(stage: Stage, ms: number, work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  const timedOut = () => new ScrapeError("timeout", `${stage} stage timed out after ${ms}ms`, { stage, timeout_ms: ms });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = timedOut();
+      controller.abort(err);
+      reject(err);
+    }, ms);
+  });
+
+  try {
+    const result = await Promise.race([work(controller.signal), expired]);
+    if (Date.now() - startedAt > ms) throw timedOut();
+    return result;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export type Checkpoint = (stage: Stage) => Promise<void>;
+
+/** Throws JobCancelledError or a job-timeout ScrapeError; otherwise lets the stage run. */
+export function createCheckpoint(supabase: SupabaseClient, jobId: string, timeouts: StageTimeouts, startedAt = Date.now()): Checkpoint {
+  return async (stage) => {
+    const { data, error } = await supabase.from("scraping_jobs").select("status").eq("id", jobId).single();
+    if (error) throw error;
+    if (data.status === "cancelled") throw new JobCancelledError(stage);
+
+    if (Date.now() - startedAt > timeouts.jobMs) {
+      throw new ScrapeError("timeout", `Job exceeded its ${timeouts.jobMs}ms limit before the ${stage} stage`, {
+        stage: "job",
+        timeout_ms: timeouts.jobMs,
+        next_stage: stage,
+      });
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "@jest/globals";
+import { canonicalUrl, type CrawlConfig, discoverLinks, inScope, normalizeCrawl } from "./crawl.ts";
+
+const ROOT = "https://shop.example/catalog";
+const config = (raw: Record<string, unknown>) => normalizeCrawl(raw) as CrawlConfig;
+
+describe("normalizeCrawl", () => {
+  it("applies defaults and ceilings", () => {
+    expect(normalizeCrawl({ enabled: false })).toBeNull();
+    expect(config({})).toMatchObject({ sameDomain: true, maxDepth: 1, maxPages: 25 });
+    expect(config({ max_depth: 99, max_pages: 0 })).toMatchObject({ maxDepth: 5, maxPages: 1 });
+  });
+
+  it("keeps only valid http(s) seeds, without fragments", () => {
+    expect(config({ seeds: ["https://shop.example/a#top", "ftp://shop.example/b", "  ", 7] }).seeds)
+      .toEqual(["https://shop.example/a"]);
+  });
+});
+
+describe("inScope", () => {
+  it("stays on the root's domain, ignoring www", () => {
+    const scope = config({});
+
+    expect(inScope("https://www.shop.example/item/1", scope, ROOT)).toBe(true);
+    expect(inScope("https://cdn.shop.example/item/1", scope, ROOT)).toBe(false);
+    expect(inScope("https://other.example/", config({ same_domain: false }), ROOT)).toBe(true);
+  });
+
+  it("applies include and exclude patterns", () => {
+    const scope = config({ include: ["https://shop.example/item/*"], exclude: ["?sort="] });
+
+    expect(inScope("https://shop.example/item/1", scope, ROOT)).toBe(true);
+    expect(inScope("https://shop.example/item/1?sort=price", scope, ROOT)).toBe(false);
+    expect(inScope("https://shop.example/blog/1", scope, ROOT)).toBe(false);
+  });
+});
+
+describe("discoverLinks", () => {
+  it("resolves relative links once and skips non-web schemes", () => {
+    const html = `
+      <a href="/item/1">One</a><a href="/item/1#reviews">One again</a>
+      <a href="item/2">Two</a><a href="mailto:a@b.c">Mail</a><a href="javascript:void(0)">JS</a>`;
+
+    expect(discoverLinks(html, ROOT)).toEqual(["https://shop.example/item/1", "https://shop.example/item/2"]);
+  });
+
+  it("canonicalizes URLs", () => {
+    expect(canonicalUrl("../x#y", "https://shop.example/a/b")).toBe("https://shop.example/x");
+    expect(canonicalUrl("not a url")).toBeNull();
+  });
+});
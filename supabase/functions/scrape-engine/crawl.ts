@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * 🕸️ APEXSCRAPE: CRAWL SCOPE & LINK DISCOVERY
+ * ============================================================================
+ * Crawl mode (`scrapers.crawl`) turns one job into a tree of jobs:
+ * - SEEDS: extra start URLs, enqueued at depth 0 beside the target URL.
+ * - SCOPE: same-domain restriction plus include/exclude patterns
+ *          ("*" wildcards; a pattern without "*" matches as a substring).
+ * - LIMITS: max_depth for link hops, max_pages for jobs per crawl.
+ * De-duplication lives in the database: UNIQUE (crawl_root_id, url).
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+
+export interface CrawlConfig {
+  seeds: string[];
+  include: RegExp[];
+  exclude: RegExp[];
+  sameDomain: boolean;
+  maxDepth: number;
+  maxPages: number;
+}
+
+/** Hard ceilings regardless of configuration. */
+export const CRAWL_DEPTH_LIMIT = 5;
+export const CRAWL_PAGE_LIMIT = 500;
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim()) : [];
+
+const clampInt = (value: unknown, fallback: number, max: number) => {
+  const n = Number(value ?? fallback);
+  return Math.min(max, Math.max(0, Number.isFinite(n) ? Math.floor(n) : fallback));
+};
+
+function toPattern(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return glob.includes("*")
+    ? new RegExp(`^${escaped.replace(/\*/g, ".*")}$`, "i")
+    : new RegExp(escaped, "i");
+}
+
+export function normalizeCrawl(raw: unknown): CrawlConfig | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const spec = raw as Record<string, unknown>;
+  if (spec.enabled === false) return null;
+
+  return {
+    seeds: asStringList(spec.seeds).map((seed) => canonicalUrl(seed)).filter((u): u is string => !!u),
+    include: asStringList(spec.include).map(toPattern),
+    exclude: asStringList(spec.exclude).map(toPattern),
+    sameDomain: spec.same_domain !== false,
+    maxDepth: clampInt(spec.max_depth, 1, CRAWL_DEPTH_LIMIT),
+    maxPages: Math.max(1, clampInt(spec.max_pages, 25, CRAWL_PAGE_LIMIT)),
+  };
+}
+
+/** Absolute http(s) URL without fragment, or null. */
+export function canonicalUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.href;
+  } catch (_e) {
+    return null;
+  }
+}
+
+export function discoverLinks(html: string, baseUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const links = new Set<string>();
+  $("a[href]").each((_, el) => {
+    const href = $(el).attr("href");
+    if (!href || href.startsWith("javascript:") || href.startsWith("mailto:")) return;
+    const url = canonicalUrl(href, baseUrl);
+    if (url) links.add(url);
+  });
+  return [...links];
+}
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^www\./, "");
+
+export function inScope(url: string, config: CrawlConfig, rootUrl: string): boolean {
+  if (config.sameDomain && hostOf(url) !== hostOf(rootUrl)) return false;
+  if (config.include.length > 0 && !config.include.some((p) => p.test(url))) return false;
+  return !config.exclude.some((p) => p.test(url));
+}
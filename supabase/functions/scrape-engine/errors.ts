@@ -0,0 +1,33 @@
+/**
+ * ============================================================================
+ * 🧯 APEXSCRAPE: FAILURE CLASSIFICATION
+ * ============================================================================
+ * Every failed job gets one `error_class` in its scraping_logs metadata:
+ * - network:    target unreachable (DNS, TLS, connection reset)
+ * - http:       target answered non-2xx after retries
+ * - ai_parse:   model output never parsed as JSON
+ * - validation: no page passed the typed schema
+ * - timeout:    the run or a request exceeded its deadline
+ * - internal:   configuration, database or engine faults
+ * ============================================================================
+ */
+
+export type ErrorClass = "network" | "http" | "ai_parse" | "validation" | "timeout" | "internal";
+
+/** An engine failure whose class is known where it is thrown. */
+export class ScrapeError extends Error {
+  constructor(
+    readonly errorClass: ErrorClass,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+export function classifyError(err: unknown): ErrorClass {
+  if (err instanceof ScrapeError) return err.errorClass;
+  if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) return "timeout";
+  return "internal";
+}
@@ -9,7 +9,30 @@
 
 import { serve } from "std/http/server.ts";
 import { createClient } from "supabase";
-import { GoogleGenerativeAI } from "google-ai";
+import { callerUserId, isServiceCall } from "../_shared/auth.ts";
+import { llmEngineOf, type LlmProvider, resolveProvider } from "../_shared/llm/index.ts";
+import { leaseUntil } from "../_shared/queue.ts";
+import { type ActionStep, describeAction, normalizeActions } from "./actions.ts";
+import { canonicalUrl, discoverLinks, inScope, normalizeCrawl } from "./crawl.ts";
+import { findNextPage, normalizePagination } from "./pagination.ts";
+import { extractDocument, type JobLogger, type PipelineContext } from "./pipeline.ts";
+import { acquireDomainToken, domainOf } from "./ratelimit.ts";
+import { fetchWithRetry, normalizeRetry } from "./retry.ts";
+import { classifyError, ScrapeError } from "./errors.ts";
+import { createRenderer, isBrowserEngine, normalizeRender } from "./render.ts";
+import { buildRequest, normalizeRequest, withQuery } from "./request.ts";
+import { createCheckpoint, JobCancelledError, normalizeTimeouts, withTimeout } from "./control.ts";
+import { createRobotsGate } from "./robots.ts";
+import { normalizeSchema } from "./schema.ts";
+import { type SnapshotRef, storeSnapshot } from "./snapshots.ts";
+import { detectFormat, normalizeSourceFormat } from "./sources.ts";
+import { holdsLease, type JobStatus, recordScraperRun, transitionJob } from "./state.ts";
+import type { ValidationReport } from "./validation.ts";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; ApexScrape/2.0)";
+/** Longest rate-limit or retry wait slept inline before the job is deferred (first page) or the walk stops. */
+const FIRST_PAGE_WAIT_MS = 5_000;
+const NEXT_PAGE_WAIT_MS = 60_000;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -25,9 +48,8 @@ serve(async (req: Request) => {
   // 2. ENV VALIDATION
   const supabaseUrl = Deno.env.get("SUPABASE_URL");
   const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  const geminiKey = Deno.env.get("GEMINI_API_KEY");
 
-  if (!supabaseUrl || !supabaseServiceKey || !geminiKey) {
+  if (!supabaseUrl || !supabaseServiceKey) {
     console.error("CRITICAL: Missing API Keys");
     return new Response(
       JSON.stringify({ error: "Server Config Error: Missing Keys" }),
@@ -37,104 +59,478 @@ serve(async (req: Request) => {
 
   // 3. INIT CLIENTS
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
-  const genAI = new GoogleGenerativeAI(geminiKey);
+
+  // Set once the job is known, so the catch block can fail it.
+  let activeJobId: string | null = null;
+  let log: JobLogger = async () => {};
+  // Set once the job is known to be a scraper's own run (not a crawl child).
+  let reportRun: (status: JobStatus) => Promise<void> = async () => {};
+
+  /** transitionJob, plus the scraper's last-run status when the move happens. */
+  const settleJob = async (jobId: string, to: JobStatus, patch: Record<string, unknown> = {}) => {
+    const moved = await transitionJob(supabase, jobId, to, patch);
+    if (moved) await reportRun(to);
+    return moved;
+  };
 
   try {
-    const { url, job_id, operator_id, target_schema } = await req.json();
+    const { job_id, worker_id } = await req.json();
+
+    if (!job_id) throw new Error("Missing 'job_id'");
+
+    // Target, owner and scraper come from the stored job, never from the request body.
+    const { data: job } = await supabase
+      .from("scraping_jobs")
+      .select("url, user_id, scraper_id, target_schema, crawl_root_id, depth, attempts, parent_job_id")
+      .eq("id", job_id)
+      .maybeSingle();
+    if (!job) {
+      return new Response(JSON.stringify({ error: "Job not found.", job_id }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The job runs with the scraper's stored request profile (headers, cookies): only the
+    // worker (service role) or the job's owner may start it.
+    if (!isServiceCall(req) && (await callerUserId(supabase, req)) !== job.user_id) {
+      return new Response(JSON.stringify({ error: "Not allowed to run this job.", job_id }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    if (!url || !job_id) throw new Error("Missing 'url' or 'job_id'");
+    const { url, user_id: operator_id, scraper_id, target_schema } = job;
 
     console.log(`[START] Job: ${job_id} | Target: ${url}`);
 
-    await supabase.from("scraping_jobs").update({ status: "running" }).eq("id", job_id);
+    // Worker-claimed jobs arrive running and leased to that worker; direct calls start a pending job.
+    // A duplicate dispatch, an expired lease or a cancelled job stops here.
+    const started = worker_id
+      ? await holdsLease(supabase, job_id, worker_id)
+      : await transitionJob(supabase, job_id, "running", { next_attempt_at: null, lease_expires_at: leaseUntil() });
+    if (!started) {
+      return new Response(JSON.stringify({ error: worker_id ? "Job is not leased to this worker." : "Job is not pending.", job_id }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    // 4. FETCH HTML
-    const resp = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; ApexScrape/2.0)",
-        "Accept": "text/html,application/xhtml+xml"
-      },
-    });
+    activeJobId = job_id;
+    log = async (level, message, metadata) => {
+      await supabase.from("scraping_logs").insert({ job_id, user_id: operator_id, scraper_id, level, message, metadata });
+    };
 
-    if (!resp.ok) throw new Error(`Target returned status ${resp.status}`);
-    
-    const rawHtml = await resp.text();
-
-    // 5. DOM CLEANING (Safe Regex)
-    let cleanHtml = rawHtml;
-    cleanHtml = cleanHtml.replace(new RegExp("<script\\b[^<]*(?:(?!<\\/script>)<[^<]*)*<\\/script>", "gi"), "");
-    cleanHtml = cleanHtml.replace(new RegExp("<style\\b[^<]*(?:(?!<\\/style>)<[^<]*)*<\\/style>", "gi"), "");
-    cleanHtml = cleanHtml.replace(new RegExp("", "g"), "");
-    cleanHtml = cleanHtml.replace(new RegExp("\\s+", "g"), " ");
-    
-    cleanHtml = cleanHtml.substring(0, 80000);
-
-    console.log(`[AI] Payload: ${cleanHtml.length} chars. Engaging Gemini...`);
-
-    // 6. GEMINI PROCESSING
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-    const prompt = `
-      EXTRACT JSON DATA.
-      SCHEMA: ${JSON.stringify(target_schema)}
-      HTML: ${cleanHtml}
-      RULES: Return ONLY valid JSON. No markdown. No Code Blocks.
-    `;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const textResponse = response.text();
-
-    // 7. JSON SANITIZATION
-    const cleanJsonString = textResponse
-      .replace(/^```json\s*/, "")
-      .replace(/^```\s*/, "")
-      .replace(/\s*```$/, "")
-      .trim();
-
-    let structuredData;
-    try {
-      structuredData = JSON.parse(cleanJsonString);
-    } catch (_e) {
-      console.error("JSON Parse Fail. AI Output:", textResponse);
-      throw new Error("AI produced invalid JSON.");
+    // 4. SCRAPER CONFIG (provider follows scrapers.engine_type; ad-hoc jobs use the LLM_ENGINE default)
+    let scraper: {
+      engine_type: string | null;
+      pagination: unknown;
+      crawl: unknown;
+      ignore_robots: boolean;
+      retry_policy: unknown;
+      render: unknown;
+      actions: unknown;
+      snapshots: boolean;
+      request_profile: unknown;
+      source_format: string;
+      timeouts: unknown;
+    } | null = null;
+    if (scraper_id) {
+      const { data } = await supabase
+        .from("scrapers")
+        .select("engine_type, pagination, crawl, ignore_robots, retry_policy, render, actions, snapshots, request_profile, source_format, timeouts")
+        .eq("id", scraper_id)
+        .maybeSingle();
+      scraper = data;
     }
 
-    // 8. DATABASE COMMIT
-    const { error: insertError } = await supabase.from("extracted_data").insert({
-      job_id,
-      content_structured: structuredData,
-      metadata: {
-        source: url,
-        engine: "gemini-1.5-pro",
-        tokens_processed: cleanHtml.length
+    // Cancellation and the job deadline are checked between stages.
+    const timeouts = normalizeTimeouts(scraper?.timeouts);
+    const checkpoint = createCheckpoint(supabase, job_id, timeouts);
+
+    let provider: LlmProvider | null = null;
+    const ctx: PipelineContext = {
+      fields: normalizeSchema(target_schema),
+      targetSchema: target_schema,
+      getProvider: () => (provider ??= resolveProvider(llmEngineOf(scraper?.engine_type))),
+      log,
+      checkpoint,
+      timeouts,
+    };
+
+    const pagination = normalizePagination(scraper?.pagination);
+    const maxPages = pagination?.maxPages ?? 1;
+    const retry = normalizeRetry(scraper?.retry_policy);
+
+    // engine_type "browser[:<llm>]" renders pages in headless Chromium instead of a plain fetch.
+    const browser = isBrowserEngine(scraper?.engine_type);
+    const actions = normalizeActions(scraper?.actions);
+    const captureSnapshots = scraper?.snapshots === true && !!operator_id;
+    const request = normalizeRequest(scraper?.request_profile);
+    const sourceFormat = normalizeSourceFormat(scraper?.source_format);
+    const renderer = browser
+      ? createRenderer(normalizeRender(scraper?.render), USER_AGENT, { actions, screenshot: captureSnapshots, request })
+      : null;
+    if (actions.length > 0 && !browser) {
+      await log("warn", `${actions.length} interaction step(s) skipped: they need the browser engine.`);
+    }
+    if (browser && request.method !== "GET") {
+      await log("warn", `${request.method} body skipped: the browser engine navigates with GET.`);
+    }
+
+    const logSteps = async (steps: ActionStep[], page: number) => {
+      for (const step of steps) {
+        const label = `Step ${step.index + 1}/${actions.length} (${describeAction(actions[step.index])})`;
+        await log(
+          step.ok ? "info" : actions[step.index].optional ? "warn" : "error",
+          step.ok ? `${label} done in ${step.ms}ms.` : `${label} failed: ${step.error}`,
+          { action_step: step, page },
+        );
       }
-    });
+    };
+    const loadPage = (target: string, page: number, primary: boolean, shot: { screenshot: string | null }) =>
+      renderer
+        ? renderer(withQuery(request, target, page), async ({ steps, screenshot }) => {
+          shot.screenshot = screenshot;
+          await logSteps(steps, page);
+        })
+        : fetch(buildRequest(request, target, page, USER_AGENT, primary), { signal: AbortSignal.timeout(timeouts.fetchMs) });
 
-    if (insertError) throw insertError;
+    // 5. JOB STATE (attempts survive deferrals; the first job of a crawl becomes its root)
+    let attempts = job.attempts ?? 0;
 
-    await supabase.from("scraping_jobs").update({
-      status: "completed",
-      last_run_at: new Date().toISOString()
-    }).eq("id", job_id);
+    // Crawl children are pages of their root's run; only the root reports to the scraper.
+    if (scraper_id && !job.parent_job_id) {
+      reportRun = (status) => recordScraperRun(supabase, scraper_id, status);
+      await reportRun("running");
+    }
 
-    await supabase.from("scraping_logs").insert({
-      job_id,
-      user_id: operator_id,
-      level: "success",
-      message: `Extracted ${Object.keys(structuredData).length} fields.`,
-    });
+    const crawl = normalizeCrawl(scraper?.crawl);
+    let crawlRootId: string = job_id;
+    let depth = 0;
+
+    if (crawl) {
+      if (job.crawl_root_id) {
+        crawlRootId = job.crawl_root_id;
+        depth = job.depth ?? 0;
+      } else {
+        await supabase.from("scraping_jobs").update({ crawl_root_id: job_id, depth: 0 }).eq("id", job_id);
+      }
+    }
+
+    // 6. ROBOTS.TXT (override only for sites with written permission)
+    const robots = createRobotsGate(supabase, USER_AGENT);
+    const ignoreRobots = scraper?.ignore_robots === true;
+    if (ignoreRobots) {
+      await log("warn", "robots.txt override active for this scraper (written permission on file).", { robots_override: true });
+    }
+
+    // 7. PAGE WALK (one extracted_data row per page, stored when the job completes)
+    const pages: Record<string, unknown>[] = [];
+    const rows: { content_structured: Record<string, unknown>; metadata: Record<string, unknown> }[] = [];
+    const visited = new Set<string>();
+    const discovered = new Set<string>();
+    let lastFailure: ValidationReport | null = null;
+    let pageUrl: string | null = url;
+
+    for (let page = 1; pageUrl && page <= maxPages; page++) {
+      await checkpoint("fetch");
+      visited.add(canonicalUrl(pageUrl) ?? pageUrl);
+
+      const verdict = await robots.check(pageUrl);
+      if (!verdict.allowed) {
+        if (ignoreRobots) {
+          await log("warn", `robots.txt override: ignored ${verdict.rule} for ${pageUrl}.`, { robots_override: true, rule: verdict.rule, page });
+        } else if (page === 1) {
+          await settleJob(job_id, "failed", { last_run_at: new Date().toISOString() });
+          await log("blocked", verdict.reason, { reason: "robots_disallowed", rule: verdict.rule, url: pageUrl });
+
+          return new Response(JSON.stringify({ error: verdict.reason, reason: "robots_disallowed" }), {
+            status: 200,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        } else {
+          await log("blocked", `Pagination stopped: ${verdict.reason}`, { reason: "robots_disallowed", rule: verdict.rule, page });
+          break;
+        }
+      }
+
+      // Domain token bucket: a long wait on the first page puts the job back in the queue.
+      if (operator_id) {
+        const deferUntil = await acquireDomainToken(
+          supabase,
+          operator_id,
+          pageUrl,
+          page === 1 ? FIRST_PAGE_WAIT_MS : NEXT_PAGE_WAIT_MS,
+        );
+
+        if (deferUntil && page === 1) {
+          const nextAttemptAt = deferUntil.toISOString();
+          await settleJob(job_id, "pending", { next_attempt_at: nextAttemptAt });
+          await log("info", `Rate limit for ${domainOf(pageUrl)} reached; deferred until ${nextAttemptAt}.`, {
+            rate_limited: true,
+            next_attempt_at: nextAttemptAt,
+          });
+
+          return new Response(JSON.stringify({ deferred: true, next_attempt_at: nextAttemptAt }), {
+            status: 200,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (deferUntil) {
+          await log("warn", `Rate limit for ${domainOf(pageUrl)} reached; pagination stopped after page ${page - 1}.`, { page });
+          break;
+        }
+      }
+
+      await robots.waitForSlot(pageUrl, verdict.crawlDelay);
+
+      // Attempts on the first page are the job's attempts; later pages get a fresh budget.
+      const target: string = pageUrl;
+      const shot: { screenshot: string | null } = { screenshot: null };
+      // Only the job's own URL carries the profile's method and body; pagination and every crawl
+      // child (seeds included, though they share the root's depth 0) are GET.
+      const primary = page === 1 && !job.parent_job_id;
+      const fetched = await fetchWithRetry(
+        () => loadPage(target, page, primary, shot),
+        retry,
+        {
+          attemptsSoFar: page === 1 ? attempts : 0,
+          maxInlineWaitMs: page === 1 ? FIRST_PAGE_WAIT_MS : NEXT_PAGE_WAIT_MS,
+          onAttempt: (attempt) =>
+            log(
+              "warn",
+              `Fetch attempt ${attempt.attempt}/${retry.maxAttempts} failed: ${attempt.error}` +
+                (attempt.retry_in_ms === null ? "." : `; retrying in ${Math.ceil(attempt.retry_in_ms / 1000)}s.`),
+              { fetch_attempt: attempt, page, page_url: pageUrl },
+            ),
+        },
+      );
+      if (page === 1) attempts = fetched.attempts;
+
+      if (!fetched.ok && page === 1 && fetched.retryAt) {
+        const nextAttemptAt = fetched.retryAt.toISOString();
+        await settleJob(job_id, "pending", { attempts, next_attempt_at: nextAttemptAt });
+        await log("info", `Retry ${attempts + 1}/${retry.maxAttempts} deferred until ${nextAttemptAt}.`, {
+          attempts,
+          next_attempt_at: nextAttemptAt,
+        });
+
+        return new Response(JSON.stringify({ deferred: true, next_attempt_at: nextAttemptAt }), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!fetched.ok && page === 1) {
+        const errorClass = fetched.errorClass;
+        await settleJob(job_id, "failed", { attempts, last_run_at: new Date().toISOString() });
+        await log("error", `Fetch failed after ${attempts} attempt(s): ${fetched.error}.`, {
+          error_class: errorClass,
+          attempts,
+          status: fetched.status,
+        });
+
+        return new Response(JSON.stringify({ error: fetched.error, error_class: errorClass, attempts }), {
+          status: 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!fetched.ok) {
+        await log("warn", `Page ${page} fetch failed after ${fetched.attempts} attempt(s); pagination stopped.`, {
+          page,
+          page_url: pageUrl,
+          status: fetched.status,
+        });
+        break;
+      }
+
+      const rawHtml = await fetched.resp.text();
+      const format = detectFormat(sourceFormat, fetched.resp.headers.get("content-type"), rawHtml);
+      if (crawl && depth < crawl.maxDepth && format === "html") {
+        discoverLinks(rawHtml, pageUrl).forEach((link) => discovered.add(link));
+      }
+
+      // Stored before extraction so pages that fail validation can be inspected too.
+      let snapshot: SnapshotRef | null = null;
+      if (captureSnapshots) {
+        try {
+          snapshot = await storeSnapshot(supabase, {
+            userId: operator_id,
+            jobId: job_id,
+            page,
+            html: rawHtml,
+            screenshot: shot.screenshot,
+          });
+        } catch (snapshotErr: any) {
+          await log("warn", `Snapshot of page ${page} not stored: ${snapshotErr.message}`, { page });
+        }
+      }
+
+      const result = await extractDocument(rawHtml, ctx, format);
+      const where = pagination ? ` on page ${page}` : "";
+
+      if (!result.ok) {
+        const { issues } = result.report;
+        console.error(`[VALIDATION] ${issues.length} issue(s)${where}:`, issues);
+        lastFailure = result.report;
+
+        await log(
+          "error",
+          `Schema validation failed${where}: ${issues.map((i) => `${i.field} (${i.problem})`).join(", ")}.`,
+          { error_class: "validation", validation: result.report, field_sources: result.fieldSources, page, snapshot },
+        );
+      } else {
+        pages.push(result.data);
+        rows.push({
+          content_structured: result.data,
+          metadata: { source: pageUrl, page, renderer: renderer ? "browser" : "fetch", snapshot, ...result.metadata },
+        });
+
+        if (pagination) {
+          await log("info", `Page ${page}/${maxPages} extracted (${Object.keys(result.data).length} fields).`, { page, page_url: pageUrl });
+        }
+      }
+
+      if (!pagination || page === maxPages) break;
+
+      const next: string | null = await findNextPage(pagination, {
+        html: rawHtml,
+        currentUrl: pageUrl,
+        page,
+        getProvider: ctx.getProvider,
+      });
+      if (next && visited.has(canonicalUrl(next) ?? next)) {
+        await log("info", `Pagination looped back to ${next}; stopping after page ${page}.`, { page });
+        break;
+      }
+      pageUrl = next;
+    }
+
+    // 8. CRAWL FRONTIER
+    if (crawl) {
+      const rootSeeds = crawlRootId === job_id ? crawl.seeds : [];
+      const candidates = [
+        ...rootSeeds.map((seed) => ({ url: seed, depth })),
+        ...[...discovered]
+          .filter((link) => !visited.has(link) && inScope(link, crawl, canonicalUrl(url) ?? url))
+          .map((link) => ({ url: link, depth: depth + 1 })),
+      ];
+      // Disallowed URLs are never enqueued, so they don't turn into blocked jobs.
+      const verdicts = ignoreRobots ? [] : await Promise.all(candidates.map((c) => robots.check(c.url)));
+      const frontier = candidates.filter((_, i) => ignoreRobots || verdicts[i].allowed);
+
+      const { count } = await supabase
+        .from("scraping_jobs")
+        .select("id", { count: "exact", head: true })
+        .eq("crawl_root_id", crawlRootId);
+      const budget = Math.max(0, crawl.maxPages - (count ?? 1));
+
+      if (frontier.length > 0 && budget > 0) {
+        await checkpoint("commit");
+        // UNIQUE (crawl_root_id, url) drops URLs this crawl has already seen.
+        const { data: children, error: enqueueError } = await withTimeout("commit", timeouts.commitMs, async (signal) =>
+          await supabase
+            .from("scraping_jobs")
+            .upsert(
+              frontier.slice(0, budget).map((child) => ({
+                url: child.url,
+                status: "pending",
+                target_schema,
+                user_id: operator_id,
+                scraper_id,
+                parent_job_id: job_id,
+                crawl_root_id: crawlRootId,
+                depth: child.depth,
+              })),
+              { onConflict: "crawl_root_id,url", ignoreDuplicates: true },
+            )
+            .select("id, url")
+            .abortSignal(signal)
+        );
+
+        if (enqueueError) throw enqueueError;
+
+        await log("info", `Crawl depth ${depth}: enqueued ${children?.length ?? 0} of ${frontier.length} discovered URL(s).`, {
+          crawl_root_id: crawlRootId,
+          depth,
+        });
+
+        // Children are ordinary queue jobs; wake the worker instead of waiting for its next tick.
+        (globalThis as any).EdgeRuntime?.waitUntil(supabase.functions.invoke("scrape-worker"));
+      } else if (frontier.length > 0) {
+        await log("info", `Crawl page budget (${crawl.maxPages}) reached; ${frontier.length} URL(s) not enqueued.`, {
+          crawl_root_id: crawlRootId,
+        });
+      }
+    }
+
+    // 9. JOB OUTCOME
+    if (pages.length === 0) {
+      await settleJob(job_id, "failed", { attempts, last_run_at: new Date().toISOString() });
+      await log("error", "Job failed: no page passed schema validation.", { error_class: "validation", validation: lastFailure });
+
+      return new Response(JSON.stringify({ error: "Schema validation failed.", error_class: "validation", report: lastFailure }), {
+        status: 422,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Rows are written in the same transaction that completes the job, and only if it is
+    // still running: a cancel after the last checkpoint stores nothing.
+    await checkpoint("commit");
+    const { data: completed, error: commitError } = await withTimeout("commit", timeouts.commitMs, async (signal) =>
+      await supabase.rpc("complete_scraping_job", { p_job_id: job_id, p_rows: rows, p_attempts: attempts }).abortSignal(signal)
+    );
+    if (commitError) throw commitError;
+    if (!completed) throw new JobCancelledError("commit");
+    await reportRun("completed");
+
+    await log(
+      "success",
+      pagination
+        ? `Extracted ${pages.length} page(s).`
+        : `Extracted ${Object.keys(pages[0]).length} fields.`,
+    );
 
     console.log("[SUCCESS] Job Complete.");
 
-    return new Response(JSON.stringify({ success: true, data: structuredData }), {
+    return new Response(JSON.stringify({ success: true, data: pages[0], pages: pages.length }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
 
   } catch (err: any) {
-    console.error(`[ERROR] ${err.message}`);
-    return new Response(JSON.stringify({ error: err.message }), {
-      status: 200, 
+    // Cancelled jobs are already terminal; only record where the engine stopped.
+    if (err instanceof JobCancelledError) {
+      console.log(`[CANCELLED] Job: ${activeJobId} before ${err.stage}`);
+      await log("warn", `Job cancelled; engine stopped before the ${err.stage} stage.`, { cancelled: true, stage: err.stage })
+        .catch(() => {});
+
+      return new Response(JSON.stringify({ cancelled: true, stage: err.stage }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const errorClass = classifyError(err);
+    console.error(`[ERROR] ${errorClass}: ${err.message}`);
+
+    if (activeJobId) {
+      try {
+        await settleJob(activeJobId, "failed", { last_run_at: new Date().toISOString() });
+        await log("error", `Job failed (${errorClass}): ${err.message}`, {
+          error_class: errorClass,
+          ...(err instanceof ScrapeError ? err.details : {}),
+        });
+      } catch (stateErr: any) {
+        console.error(`[ERROR] Could not record failure: ${stateErr.message}`);
+      }
+    }
+
+    return new Response(JSON.stringify({ error: err.message, error_class: errorClass }), {
+      status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "@jest/globals";
+import { largestJsonBlock, parseTolerant, relaxJson } from "./json-repair.ts";
+
+describe("parseTolerant", () => {
+  it("parses plain and fenced JSON", () => {
+    expect(parseTolerant('{"a": 1}')).toEqual({ ok: true, value: { a: 1 } });
+    expect(parseTolerant('```json\n{"a": 1}\n```')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it("recovers an object wrapped in prose", () => {
+    expect(parseTolerant('Here you go: {"title": "Widget"} Hope that helps!'))
+      .toEqual({ ok: true, value: { title: "Widget" } });
+  });
+
+  it("relaxes single quotes and trailing commas", () => {
+    expect(parseTolerant("{'title': 'Bob\\'s \"best\"', 'tags': ['a', 'b',],}"))
+      .toEqual({ ok: true, value: { title: 'Bob\'s "best"', tags: ["a", "b"] } });
+  });
+
+  it("rejects top-level arrays and empty output", () => {
+    expect(parseTolerant("[1, 2]").ok).toBe(false);
+    expect(parseTolerant("")).toEqual({ ok: false, error: "Empty model response." });
+  });
+});
+
+describe("largestJsonBlock", () => {
+  it("ignores brackets inside strings", () => {
+    expect(largestJsonBlock('x {"a": "}{"} y {"b": 1}')).toBe('{"a": "}{"}');
+  });
+
+  it("returns null when nothing balances", () => {
+    expect(largestJsonBlock('{"a": [1, 2}')).toBeNull();
+  });
+});
+
+describe("relaxJson", () => {
+  it("leaves valid JSON unchanged", () => {
+    expect(relaxJson('{"a": [1, "x, y"]}')).toBe('{"a": [1, "x, y"]}');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * 🩹 APEXSCRAPE: TOLERANT JSON RECOVERY
+ * ============================================================================
+ * Salvages model output before we pay for a re-prompt:
+ * 1. Strip markdown fences.
+ * 2. Isolate the largest balanced {...} / [...] block.
+ * 3. Relax common LLM mistakes (single quotes, trailing commas).
+ * ============================================================================
+ */
+
+export type ParseOutcome =
+  | { ok: true; value: Record<string, unknown> }
+  | { ok: false; error: string };
+
+export function stripCodeFences(text: string): string {
+  return text
+    .replace(/^```json\s*/, "")
+    .replace(/^```\s*/, "")
+    .replace(/\s*```$/, "")
+    .trim();
+}
+
+/** Index of the bracket closing the one opened at `start`, or -1. */
+function matchClose(text: string, start: number): number {
+  const stack: string[] = [];
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+    else if (ch === "}" || ch === "]") {
+      if (stack.pop() !== ch) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+export function largestJsonBlock(text: string): string | null {
+  let best: string | null = null;
+
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== "{" && text[start] !== "[") continue;
+    const end = matchClose(text, start);
+    if (end === -1) continue;
+
+    const block = text.slice(start, end + 1);
+    if (!best || block.length > best.length) best = block;
+    start = end;
+  }
+  return best;
+}
+
+/** Rewrites single-quoted strings to JSON strings and drops trailing commas. */
+export function relaxJson(text: string): string {
+  let out = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '"' || ch === "'") {
+      let body = "";
+      let j = i + 1;
+      while (j < text.length && text[j] !== ch) {
+        if (text[j] === "\\") {
+          body += ch === "'" && text[j + 1] === "'" ? "'" : text[j] + (text[j + 1] ?? "");
+          j += 2;
+          continue;
+        }
+        body += ch === "'" && text[j] === '"' ? '\\"' : text[j];
+        j++;
+      }
+      out += `"${body}"`;
+      i = j;
+      continue;
+    }
+
+    if (ch === ",") {
+      let k = i + 1;
+      while (k < text.length && /\s/.test(text[k])) k++;
+      if (text[k] === "}" || text[k] === "]") continue;
+    }
+
+    out += ch;
+  }
+  return out;
+}
+
+function parseObject(text: string): Record<string, unknown> {
+  const value = JSON.parse(text);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Expected a JSON object at the top level.");
+  }
+  return value;
+}
+
+export function parseTolerant(raw: string): ParseOutcome {
+  const stripped = stripCodeFences(raw);
+  const block = largestJsonBlock(stripped);
+  const candidates = [stripped, block, block && relaxJson(block)].filter(
+    (c): c is string => !!c,
+  );
+
+  let lastError = "Empty model response.";
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: parseObject(candidate) };
+    } catch (e) {
+      lastError = (e as Error).message;
+    }
+  }
+  return { ok: false, error: lastError };
+}
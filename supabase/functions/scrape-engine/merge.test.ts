@@ -0,0 +1,48 @@
+import { describe, expect, it } from "@jest/globals";
+import { type ChunkExtraction, mergeChunks } from "./merge.ts";
+
+const chunk = (n: number, data: Record<string, unknown>, confidence: Record<string, number> = {}): ChunkExtraction =>
+  ({ chunk: n, data, confidence });
+
+describe("mergeChunks", () => {
+  it("concatenates arrays across overlapping chunks without duplicates", () => {
+    const { data, fieldChunks } = mergeChunks(
+      [chunk(1, { tags: ["Red", "Blue "] }), chunk(2, { tags: ["blue", "Green"] }), chunk(3, { tags: ["red"] })],
+      [{ key: "tags", type: "array" }],
+    );
+
+    expect(data.tags).toEqual(["Red", "Blue ", "Green"]);
+    expect(fieldChunks.tags).toEqual([1, 2]);
+  });
+
+  it("keeps the most confident scalar, breaking ties by document order", () => {
+    const { data, fieldChunks } = mergeChunks(
+      [
+        chunk(1, { price: 10, title: "First" }, { price: 0.4 }),
+        chunk(2, { price: 12, title: "Second" }, { price: 0.9 }),
+      ],
+      [{ key: "price", type: "number" }, { key: "title", type: "string" }],
+    );
+
+    expect(data).toEqual({ price: 12, title: "First" });
+    expect(fieldChunks).toEqual({ price: 2, title: 1 });
+  });
+
+  it("merges objects key by key and fills gaps from later chunks", () => {
+    const { data } = mergeChunks(
+      [
+        chunk(1, { seller: { name: "Acme", phone: "" } }, { seller: 0.9 }),
+        chunk(2, { seller: { name: "ACME Inc", phone: "555", tags: ["a"] } }),
+      ],
+      [{ key: "seller", type: "object" }],
+    );
+
+    expect(data.seller).toEqual({ name: "Acme", phone: "555", tags: ["a"] });
+  });
+
+  it("sets schema fields no chunk found to null and keeps extra keys", () => {
+    const { data } = mergeChunks([chunk(1, { title: "", extra: "x" })], [{ key: "title", type: "string" }]);
+
+    expect(data).toEqual({ title: null, extra: "x" });
+  });
+});
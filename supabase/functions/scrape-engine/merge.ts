@@ -0,0 +1,122 @@
+/**
+ * ============================================================================
+ * 🧷 APEXSCRAPE: CHUNK RESULT MERGER
+ * ============================================================================
+ * Folds per-chunk extractions into one record, guided by the schema:
+ * - ARRAYS: concatenated in document order, de-duplicated (chunks overlap).
+ * - OBJECTS: merged key by key with the same rules.
+ * - SCALARS: highest self-reported confidence wins; ties go to the earliest chunk.
+ * Also reports which chunk(s) supplied each top-level field.
+ * ============================================================================
+ */
+
+import type { FieldSpec } from "./schema.ts";
+
+export interface ChunkExtraction {
+  /** 1-based position of the chunk in the document. */
+  chunk: number;
+  data: Record<string, unknown>;
+  confidence: Record<string, number>;
+}
+
+export interface MergedExtraction {
+  data: Record<string, unknown>;
+  /** Scalars and objects name one chunk; arrays list every contributing chunk. */
+  fieldChunks: Record<string, number | number[]>;
+}
+
+const DEFAULT_CONFIDENCE = 0.5;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+
+/** Order- and whitespace-insensitive identity used for de-duplication. */
+function fingerprint(value: unknown): string {
+  if (typeof value === "string") return value.replace(/\s+/g, " ").trim().toLowerCase();
+  if (Array.isArray(value)) return `[${value.map(fingerprint).join(",")}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map((k) => `${k}:${fingerprint(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function dedupe(items: unknown[]): unknown[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = fingerprint(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Nested objects have no per-key confidence, so the first non-empty value wins. */
+function mergeObjects(objects: Record<string, unknown>[]): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const object of objects) {
+    for (const [key, value] of Object.entries(object)) {
+      const current = merged[key];
+      if (isEmpty(current)) merged[key] = value;
+      else if (Array.isArray(current) && Array.isArray(value)) merged[key] = dedupe([...current, ...value]);
+      else if (isPlainObject(current) && isPlainObject(value)) merged[key] = mergeObjects([current, value]);
+    }
+  }
+  return merged;
+}
+
+export function mergeChunks(results: ChunkExtraction[], fields: FieldSpec[]): MergedExtraction {
+  const data: Record<string, unknown> = {};
+  const fieldChunks: Record<string, number | number[]> = {};
+
+  const keys = new Set([...fields.map((f) => f.key), ...results.flatMap((r) => Object.keys(r.data))]);
+
+  for (const key of keys) {
+    const spec = fields.find((f) => f.key === key);
+    const candidates = results.filter((r) => !isEmpty(r.data[key]));
+    if (candidates.length === 0) {
+      data[key] = null;
+      continue;
+    }
+
+    const sample = candidates[0].data[key];
+    const kind = spec?.type ?? (Array.isArray(sample) ? "array" : isPlainObject(sample) ? "object" : "scalar");
+
+    if (kind === "array") {
+      const items: unknown[] = [];
+      const seen = new Set<string>();
+      const contributors: number[] = [];
+      for (const result of candidates) {
+        const value = result.data[key];
+        let added = false;
+        for (const item of Array.isArray(value) ? value : [value]) {
+          const id = fingerprint(item);
+          if (seen.has(id)) continue;
+          seen.add(id);
+          items.push(item);
+          added = true;
+        }
+        if (added) contributors.push(result.chunk);
+      }
+      data[key] = items;
+      fieldChunks[key] = contributors;
+      continue;
+    }
+
+    const ranked = [...candidates].sort(
+      (a, b) =>
+        (b.confidence[key] ?? DEFAULT_CONFIDENCE) - (a.confidence[key] ?? DEFAULT_CONFIDENCE) ||
+        a.chunk - b.chunk,
+    );
+    const best = ranked[0];
+
+    data[key] = kind === "object" && ranked.every((r) => isPlainObject(r.data[key]))
+      ? mergeObjects(ranked.map((r) => r.data[key] as Record<string, unknown>))
+      : best.data[key];
+    fieldChunks[key] = best.chunk;
+  }
+
+  return { data, fieldChunks };
+}
@@ -0,0 +1,113 @@
+/**
+ * ============================================================================
+ * 📑 APEXSCRAPE: PAGINATION WALKER
+ * ============================================================================
+ * Resolves the next page URL for a listing, per `scrapers.pagination`:
+ * - next_link:    CSS selector for the "next" anchor (defaults to rel=next).
+ * - url_template: "https://site/list?page={page}" counted from `start_page`.
+ * - ai:           the LLM picks the next-page link from the page's anchors.
+ * `max_pages` always caps the walk; revisited URLs stop it early.
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+import type { LlmProvider } from "../_shared/llm/index.ts";
+import { parseTolerant } from "./json-repair.ts";
+
+export const PAGINATION_STRATEGIES = ["next_link", "url_template", "ai"] as const;
+export type PaginationStrategy = (typeof PAGINATION_STRATEGIES)[number];
+
+export interface PaginationConfig {
+  strategy: PaginationStrategy;
+  selector?: string;
+  template?: string;
+  startPage: number;
+  maxPages: number;
+}
+
+/** Hard ceiling regardless of configuration; one invocation must finish in time. */
+export const PAGE_LIMIT = 50;
+const DEFAULT_MAX_PAGES = 5;
+const DEFAULT_NEXT_SELECTOR = 'a[rel~="next"], link[rel~="next"]';
+const MAX_AI_LINKS = 150;
+
+export function normalizePagination(raw: unknown): PaginationConfig | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const spec = raw as Record<string, unknown>;
+
+  const strategy = PAGINATION_STRATEGIES.find((s) => s === spec.strategy);
+  if (!strategy) return null;
+  if (strategy === "url_template" && (typeof spec.template !== "string" || !spec.template.includes("{page}"))) {
+    throw new Error("Pagination template must contain a {page} placeholder.");
+  }
+
+  const maxPages = Number(spec.max_pages ?? DEFAULT_MAX_PAGES);
+  return {
+    strategy,
+    selector: typeof spec.selector === "string" && spec.selector.trim() ? spec.selector.trim() : undefined,
+    template: typeof spec.template === "string" ? spec.template.trim() : undefined,
+    startPage: Number.isInteger(spec.start_page) ? (spec.start_page as number) : 1,
+    maxPages: Math.min(PAGE_LIMIT, Math.max(1, Number.isFinite(maxPages) ? Math.floor(maxPages) : DEFAULT_MAX_PAGES)),
+  };
+}
+
+interface NextPageInput {
+  html: string;
+  currentUrl: string;
+  /** 1-based number of the page just extracted. */
+  page: number;
+  getProvider: () => LlmProvider;
+}
+
+export async function findNextPage(config: PaginationConfig, input: NextPageInput): Promise<string | null> {
+  switch (config.strategy) {
+    case "url_template":
+      return config.template!.replaceAll("{page}", String(config.startPage + input.page));
+    case "next_link":
+      return nextFromSelector(input.html, input.currentUrl, config.selector ?? DEFAULT_NEXT_SELECTOR, config.selector);
+    case "ai":
+      return nextFromAi(input.html, input.currentUrl, input.getProvider());
+  }
+}
+
+function absolute(href: string | undefined, base: string): string | null {
+  if (!href || href.startsWith("#") || href.startsWith("javascript:")) return null;
+  try {
+    const resolved = new URL(href, base);
+    return resolved.protocol.startsWith("http") ? resolved.href : null;
+  } catch (_e) {
+    return null;
+  }
+}
+
+function nextFromSelector(html: string, base: string, selector: string, configured?: string): string | null {
+  const $ = cheerio.load(html);
+  try {
+    return absolute($(selector).first().attr("href"), base);
+  } catch (_e) {
+    throw new Error(`Invalid pagination selector: ${configured}`);
+  }
+}
+
+async function nextFromAi(html: string, base: string, provider: LlmProvider): Promise<string | null> {
+  const $ = cheerio.load(html);
+  const links = $("a[href]")
+    .toArray()
+    .map((el) => ({ text: $(el).text().replace(/\s+/g, " ").trim().substring(0, 80), href: absolute($(el).attr("href"), base) }))
+    .filter((link): link is { text: string; href: string } => !!link.href && link.href !== base)
+    .slice(0, MAX_AI_LINKS);
+
+  if (links.length === 0) return null;
+
+  const { text } = await provider.generate(`
+    FIND THE NEXT PAGE LINK.
+    CURRENT PAGE: ${base}
+    LINKS: ${JSON.stringify(links)}
+    RULES: Return ONLY {"next_url": "<href from LINKS>"} or {"next_url": null} if this is the last page. No markdown.
+  `);
+
+  const parsed = parseTolerant(text);
+  if (!parsed.ok || typeof parsed.value.next_url !== "string") return null;
+  // Only accept a URL that actually appears on the page.
+  return links.some((link) => link.href === parsed.value.next_url) ? parsed.value.next_url : null;
+}
@@ -0,0 +1,201 @@
+/**
+ * ============================================================================
+ * ⚙️ APEXSCRAPE: PAGE EXTRACTION PIPELINE
+ * ============================================================================
+ * One fetched document in, one validated record out:
+ * selectors -> structured data -> LLM (chunked) -> typed validation.
+ * JSON / XML / CSV documents take path mappings instead of the selector and
+ * structured-data passes (see sources.ts).
+ * Persistence and job status stay with the caller (index.ts), so the same
+ * pipeline runs for every page of a paginated listing. Cancellation is
+ * checked before cleaning and before every model call, and the clean and
+ * AI stages run under their own deadlines (see control.ts).
+ * ============================================================================
+ */
+
+import { emptyUsage, type LlmProvider } from "../_shared/llm/index.ts";
+import { AiAttempt, AiUsage, extractWithLlm } from "./ai.ts";
+import { type Checkpoint, type StageTimeouts, withTimeout } from "./control.ts";
+import { type ChunkExtraction, mergeChunks } from "./merge.ts";
+import { chunkBySection, MAX_CHUNK_CHARS, reduceHtml } from "./reducer.ts";
+import { type FieldSpec, isSelectorField, toPromptSchema } from "./schema.ts";
+import { extractWithSelectors } from "./selectors.ts";
+import { extractWithPaths, isPathField, type ParsedSource, parseSource, type SourceFormat } from "./sources.ts";
+import { harvestStructuredData, hasHints, resolveFromHints } from "./structured.ts";
+import { validateAgainstSchema, type ValidationReport } from "./validation.ts";
+
+export type FieldSource = "selector" | "mapped" | "structured" | "ai" | "ai_fallback";
+/** `blocked` marks jobs refused by policy (robots.txt), not by failure. */
+export type LogLevel = "success" | "info" | "warn" | "error" | "blocked";
+export type JobLogger = (level: LogLevel, message: string, metadata?: Record<string, unknown>) => Promise<void>;
+
+export interface PipelineContext {
+  fields: FieldSpec[];
+  /** Raw `target_schema`, sent to the model as-is when it does not normalize to fields. */
+  targetSchema: unknown;
+  /** Resolved lazily: documents fully covered by selectors/structured data never need a provider. */
+  getProvider: () => LlmProvider;
+  log: JobLogger;
+  checkpoint: Checkpoint;
+  /** Per-stage limits; clean and ai apply per page. */
+  timeouts: StageTimeouts;
+}
+
+export type PageExtraction =
+  | { ok: true; data: Record<string, unknown>; metadata: Record<string, unknown> }
+  | { ok: false; report: ValidationReport; fieldSources: Record<string, FieldSource> };
+
+export async function extractDocument(
+  rawHtml: string,
+  ctx: PipelineContext,
+  format: SourceFormat = "html",
+): Promise<PageExtraction> {
+  const { fields, log } = ctx;
+  await ctx.checkpoint("clean");
+
+  // 0-2. CLEAN STAGE: parsing, the deterministic passes and page reduction.
+  const { source, selectorFields, selectorResult, structuredHints, hintResult, aiKeys, reduced } = await withTimeout("clean", ctx.timeouts.cleanMs, async () => {
+    // 0. DATA SOURCES (malformed documents fall back to the HTML passes)
+    let source: ParsedSource | null = null;
+    if (format !== "html") {
+      try {
+        source = parseSource(format, rawHtml);
+      } catch (e: any) {
+        await log("warn", `Response is not valid ${format.toUpperCase()} (${e.message}); extracting it as HTML.`);
+      }
+    }
+
+    // 1. DETERMINISTIC PASS (CSS selectors, or paths into a data source)
+    const selectorFields = source ? fields.filter((f) => isPathField(f, source)) : fields.filter(isSelectorField);
+    const selectorResult = source
+      ? extractWithPaths(source, selectorFields)
+      : extractWithSelectors(rawHtml, selectorFields);
+    for (const problem of selectorResult.invalid) {
+      await log("warn", `${problem}; the field is treated as missed.`);
+    }
+
+    // 2. STRUCTURED DATA PASS (JSON-LD / microdata / OpenGraph; HTML only)
+    const structuredHints = source ? null : harvestStructuredData(rawHtml);
+    const hintResult = structuredHints
+      ? resolveFromHints(structuredHints, fields.filter((f) => !selectorResult.matched.includes(f.key)))
+      : { data: {}, resolved: [] as string[] };
+
+    // Whatever selectors and structured data left unresolved goes to the AI pass.
+    const aiKeys = fields
+      .map((f) => f.key)
+      .filter((key) => !selectorResult.matched.includes(key) && !hintResult.resolved.includes(key));
+    const needsAi = fields.length === 0 || aiKeys.length > 0;
+
+    // Long pages are extracted in overlapping sections instead of being truncated.
+    // Data sources go to the model verbatim; stripping markup would lose their structure.
+    const reduced = !needsAi ? null : source ? rawHtml : reduceHtml(rawHtml);
+    return { source, selectorFields, selectorResult, structuredHints, hintResult, aiKeys, reduced };
+  });
+
+  let structuredData: Record<string, unknown> = { ...selectorResult.data, ...hintResult.data };
+  const fieldSources: Record<string, FieldSource> = {};
+  selectorResult.matched.forEach((key) => (fieldSources[key] = source ? "mapped" : "selector"));
+  hintResult.resolved.forEach((key) => (fieldSources[key] = "structured"));
+
+  // 3. AI PASS
+  let tokensProcessed = 0;
+  let chunkStats: { total: number; extracted: number; overlap: number } | null = null;
+  let fieldChunks: Record<string, number | number[]> = {};
+  let aiUsage: (AiUsage & { attempts: number }) | null = null;
+  let provider: LlmProvider | null = null;
+
+  if (reduced !== null) {
+    provider = ctx.getProvider();
+
+    const overlap = Number(Deno.env.get("AI_CHUNK_OVERLAP") ?? 2000);
+    const allChunks = chunkBySection(reduced, MAX_CHUNK_CHARS, overlap);
+    const chunks = allChunks.slice(0, Number(Deno.env.get("AI_MAX_CHUNKS") ?? 6));
+    tokensProcessed = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    chunkStats = { total: allChunks.length, extracted: chunks.length, overlap };
+    console.log(`[AI] Reduced ${rawHtml.length} -> ${reduced.length} chars in ${chunks.length} chunk(s). Resolving ${aiKeys.length} fields via ${provider.name}...`);
+
+    if (allChunks.length > chunks.length) {
+      await log("warn", `Page split into ${allChunks.length} chunks; only the first ${chunks.length} were extracted (AI_MAX_CHUNKS).`);
+    }
+
+    const aiOptions = (chunk: number) => ({
+      maxRepairs: Number(Deno.env.get("AI_REPAIR_ATTEMPTS") ?? 2),
+      withConfidence: chunks.length > 1,
+      onAttempt: async (attempt: AiAttempt) => {
+        const where = chunks.length > 1 ? ` [chunk ${chunk}/${chunks.length}]` : "";
+        await log(
+          attempt.ok ? "info" : "warn",
+          attempt.ok
+            ? `AI ${attempt.kind} attempt ${attempt.attempt} parsed (${attempt.usage.total_tokens} tokens)${where}.`
+            : `AI ${attempt.kind} attempt ${attempt.attempt} returned invalid JSON${where}: ${attempt.error}`,
+          { ai_attempt: attempt, chunk },
+        );
+      },
+    });
+
+    const promptSchema = fields.length === 0
+      ? ctx.targetSchema
+      : toPromptSchema(fields.filter((f) => aiKeys.includes(f.key)));
+
+    const chunkResults: ChunkExtraction[] = [];
+    aiUsage = { ...emptyUsage(), attempts: 0 };
+    const [llm, usage] = [provider, aiUsage];
+    await withTimeout("ai", ctx.timeouts.aiMs, async (signal) => {
+      // An expired pass stops before its next chunk instead of running on unobserved.
+      for (let i = 0; i < chunks.length && !signal.aborted; i++) {
+        await ctx.checkpoint("ai");
+        const result = await extractWithLlm(llm, chunks[i], promptSchema, aiOptions(i + 1));
+        chunkResults.push({ chunk: i + 1, data: result.data, confidence: result.confidence });
+        usage.prompt_tokens += result.usage.prompt_tokens;
+        usage.completion_tokens += result.usage.completion_tokens;
+        usage.total_tokens += result.usage.total_tokens;
+        usage.attempts += result.attempts;
+      }
+    });
+    const ai = mergeChunks(chunkResults, fields);
+    fieldChunks = ai.fieldChunks;
+
+    if (fields.length === 0) {
+      structuredData = ai.data;
+      Object.keys(structuredData).forEach((key) => (fieldSources[key] = "ai"));
+    } else {
+      for (const key of aiKeys) {
+        structuredData[key] = ai.data[key] ?? null;
+        fieldSources[key] = selectorResult.missed.includes(key) ? "ai_fallback" : "ai";
+      }
+    }
+  }
+
+  // 4. PROVENANCE
+  const passes = [
+    selectorFields.length > 0 && (source ? `${source.format}-path` : "cheerio"),
+    hintResult.resolved.length > 0 && "structured-data",
+    provider?.name,
+  ].filter((pass): pass is string => !!pass);
+  const extractionMode = passes.length > 1
+    ? "hybrid"
+    : provider ? "ai" : hintResult.resolved.length > 0 ? "structured" : source ? "mapped" : "selector";
+
+  console.log(`[${extractionMode.toUpperCase()}] ${source ? "Paths" : "Selectors"} matched ${selectorResult.matched.length}/${selectorFields.length}, structured data resolved ${hintResult.resolved.length}.`);
+
+  // 5. TYPED VALIDATION
+  const validation = validateAgainstSchema(structuredData, fields);
+  if (!validation.success) return { ok: false, report: validation.report, fieldSources };
+
+  return {
+    ok: true,
+    data: validation.data,
+    metadata: {
+      engine: passes.join("+"),
+      extraction_mode: extractionMode,
+      source_format: source?.format ?? "html",
+      field_sources: fieldSources,
+      tokens_processed: tokensProcessed,
+      ai_usage: aiUsage,
+      chunks: chunkStats,
+      field_chunks: fieldChunks,
+      structured_hints: structuredHints && hasHints(structuredHints) ? structuredHints : null,
+      coerced_fields: validation.report.coerced,
+    },
+  };
+}
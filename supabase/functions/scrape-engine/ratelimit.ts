@@ -0,0 +1,44 @@
+/**
+ * ============================================================================
+ * 🚦 APEXSCRAPE: DOMAIN RATE LIMITER
+ * ============================================================================
+ * Token bucket per (user, domain), stored in public.domain_buckets and
+ * refilled atomically by take_domain_token() so concurrent invocations share
+ * one budget. Limits come from public.domain_rate_limits (Settings > Rate
+ * Limits), falling back to 5 tokens refilled at 30 per minute.
+ * Short waits are slept through; longer ones are handed back to the caller,
+ * which defers the job (status pending + next_attempt_at).
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+
+/** Bucket key: host without "www." (matches domain_rate_limits.domain). */
+export const domainOf = (url: string) => new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+
+/**
+ * Resolves once a token is taken, or returns the time the next token frees up
+ * when that is further away than `maxWaitMs`.
+ */
+export async function acquireDomainToken(
+  supabase: SupabaseClient,
+  userId: string,
+  url: string,
+  maxWaitMs: number,
+): Promise<Date | null> {
+  const domain = domainOf(url);
+
+  for (;;) {
+    const { data: nextAt, error } = await supabase.rpc("take_domain_token", {
+      p_user_id: userId,
+      p_domain: domain,
+    });
+    if (error) throw error;
+    if (!nextAt) return null;
+
+    const next = new Date(nextAt as string);
+    const wait = next.getTime() - Date.now();
+    if (wait > maxWaitMs) return next;
+    await new Promise((resolve) => setTimeout(resolve, Math.max(wait, 0)));
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "@jest/globals";
+import { chunkBySection, reduceHtml } from "./reducer.ts";
+
+describe("reduceHtml", () => {
+  it("drops page chrome and keeps links, images and headings", () => {
+    const text = reduceHtml(`
+      <html><head><title>x</title><script>track()</script></head><body>
+        <nav><a href="/">Home</a></nav>
+        <div class="cookie-banner">We use cookies</div>
+        <h1>Widget</h1>
+        <p>Costs <b>$5</b>. <a href="/buy">Buy now</a> <a href="javascript:void(0)">Share</a></p>
+        <img src="/w.png" alt="A widget">
+        <footer>© Acme</footer>
+      </body></html>`);
+
+    expect(text).toBe("# Widget\n\nCosts $5. [Buy now](/buy) Share\n![A widget](/w.png)");
+  });
+
+  it("keeps the page when state classes sit on body or content wrappers", () => {
+    const text = reduceHtml(`
+      <body class="modal-open">
+        <main id="main" class="has-newsletter"><p>Kept</p></main>
+        <div class="popup-host"><article><p>Also kept</p></article></div>
+      </body>`);
+
+    expect(text).toContain("Kept");
+    expect(text).toContain("Also kept");
+  });
+
+  it("renders tables as pipe rows", () => {
+    const text = reduceHtml("<table><tr><th>Size</th><th>Price</th></tr><tr><td>S</td><td>$5</td></tr></table>");
+
+    expect(text).toBe("| Size | Price |\n| --- | --- |\n| S | $5 |");
+  });
+});
+
+describe("chunkBySection", () => {
+  const doc = ["# One", "a".repeat(40), "# Two", "b".repeat(40), "# Three", "c".repeat(40)].join("\n");
+
+  it("packs whole sections into chunks", () => {
+    const chunks = chunkBySection(doc, 60);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every((chunk) => chunk.startsWith("# "))).toBe(true);
+    expect(chunks.join("\n")).toBe(doc);
+  });
+
+  it("repeats the tail of the previous chunk when overlapping", () => {
+    const chunks = chunkBySection(doc, 100, 45);
+
+    expect(chunks[1].startsWith("a".repeat(40))).toBe(true);
+    expect(chunks[1]).toContain("# Two");
+  });
+
+  it("splits sections longer than a chunk", () => {
+    const chunks = chunkBySection(`# Long\n\n${"x".repeat(250)}`, 100);
+
+    expect(chunks.every((chunk) => chunk.length <= 100)).toBe(true);
+    expect(chunks.join("").replace(/[^x]/g, "")).toHaveLength(250);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * ============================================================================
+ * 🧹 APEXSCRAPE: DOM REDUCER
+ * ============================================================================
+ * Turns raw HTML into compact, model-friendly text:
+ * - BOILERPLATE STRIP: scripts, styles, nav, footer, cookie/newsletter chrome.
+ * - ATTRIBUTE COLLAPSE: only href/src/alt survive, inlined as markdown.
+ * - TABLE FIDELITY: <table> becomes pipe-delimited rows.
+ * - SECTION CHUNKING: splits on headings (with optional overlap) so long pages
+ *   are extracted in parts instead of being cut at a fixed character count.
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+import type { Cheerio, CheerioAPI } from "cheerio";
+
+export const MAX_CHUNK_CHARS = 80000;
+
+const NOISE_TAGS = "script, style, noscript, template, svg, canvas, iframe, link, meta, nav, footer, aside";
+const NOISE_ROLES = "[role=navigation], [role=contentinfo], [aria-hidden=true]";
+const NOISE_PATTERN = /(cookie|consent|gdpr|newsletter|subscribe|popup|modal|advert|promo-banner|skip-link)/i;
+const MAIN_CONTENT = "main, article, [role=main]";
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "header", "form", "fieldset",
+  "figure", "figcaption", "blockquote", "pre", "dl", "dt", "dd", "ul", "ol",
+  "address", "details", "summary",
+]);
+
+export function reduceHtml(rawHtml: string): string {
+  const $ = cheerio.load(rawHtml);
+
+  $(NOISE_TAGS).remove();
+  $(NOISE_ROLES).remove();
+  // Page state classes ("modal-open", "cookie-consent-shown") sit on html/body
+  // or content wrappers; removing those would drop the whole page.
+  $("[class], [id]").not("html, body, main").each((_, el) => {
+    const node = $(el);
+    const marker = `${node.attr("class") ?? ""} ${node.attr("id") ?? ""}`;
+    if (NOISE_PATTERN.test(marker) && node.find(MAIN_CONTENT).length === 0) node.remove();
+  });
+
+  const root: Cheerio<any> = $("body").length ? $("body") : $.root();
+  const text = root.contents().toArray().map((node) => render($, node)).join("");
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function render($: CheerioAPI, node: any): string {
+  if (node.type === "text") return node.data.replace(/\s+/g, " ");
+  if (node.type !== "tag") return "";
+
+  const name: string = node.name;
+  const inner = () => $(node).contents().toArray().map((child) => render($, child)).join("");
+
+  if (/^h[1-6]$/.test(name)) {
+    return `\n\n${"#".repeat(Number(name[1]))} ${inner().trim()}\n\n`;
+  }
+
+  switch (name) {
+    case "br":
+      return "\n";
+    case "li":
+      return `\n- ${inner().trim()}`;
+    case "a": {
+      const label = inner().trim();
+      const href = $(node).attr("href");
+      return href && label && !href.startsWith("javascript:") ? `[${label}](${href})` : label;
+    }
+    case "img": {
+      const src = $(node).attr("src");
+      return src ? `![${$(node).attr("alt") ?? ""}](${src})` : "";
+    }
+    case "table":
+      return `\n\n${renderTable($, node)}\n\n`;
+    default:
+      return BLOCK_TAGS.has(name) ? `\n${inner()}\n` : inner();
+  }
+}
+
+function renderTable($: CheerioAPI, table: any): string {
+  const rows = $(table).find("tr").toArray();
+
+  return rows
+    .map((row, index) => {
+      const cells = $(row).children("th, td").toArray();
+      const line = `| ${cells.map((cell) => render($, cell).replace(/\s+/g, " ").trim()).join(" | ")} |`;
+      const isHeader = index === 0 && cells.some((cell) => cell.tagName === "th");
+      return isHeader ? `${line}\n|${" --- |".repeat(cells.length)}` : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Packs heading-delimited sections into chunks of at most `maxChars`.
+ * Sections larger than a chunk are split on paragraph boundaries.
+ * With `overlap`, each chunk repeats the tail of the previous one so records
+ * straddling a boundary are seen whole at least once.
+ */
+export function chunkBySection(text: string, maxChars = MAX_CHUNK_CHARS, overlap = 0): string[] {
+  const budget = Math.max(1, maxChars - overlap);
+  const sections = text.split(/\n(?=#{1,6} )/);
+  const pieces = sections.flatMap((section) => splitOversized(section, budget));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > budget) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  if (overlap <= 0) return chunks;
+  return chunks.map((chunk, i) => (i === 0 ? chunk : `${tail(chunks[i - 1], overlap)}\n${chunk}`));
+}
+
+/** Last `size` chars of `text`, starting on a line boundary when one exists. */
+function tail(text: string, size: number): string {
+  const slice = text.slice(-size);
+  const lineStart = slice.indexOf("\n");
+  return lineStart > 0 && lineStart < slice.length - 1 ? slice.slice(lineStart + 1) : slice;
+}
+
+function splitOversized(section: string, maxChars: number): string[] {
+  if (section.length <= maxChars) return [section];
+
+  const out: string[] = [];
+  let current = "";
+  for (const paragraph of section.split(/\n\n/)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      out.push(current);
+      current = "";
+    }
+    if (paragraph.length > maxChars) {
+      for (let i = 0; i < paragraph.length; i += maxChars) {
+        out.push(paragraph.substring(i, i + maxChars));
+      }
+      continue;
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) out.push(current);
+
+  return out;
+}
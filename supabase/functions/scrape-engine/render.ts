@@ -0,0 +1,165 @@
+/**
+ * ============================================================================
+ * 🖥️ APEXSCRAPE: HEADLESS BROWSER RENDERING
+ * ============================================================================
+ * engine_type "browser" (or "browser:<llm engine>") renders pages in headless
+ * Chromium before extraction, for SPAs that ship an empty shell to `fetch`.
+ * Rendering is delegated to a Browserless-compatible service:
+ * - RENDER_SERVICE_URL:   e.g. http://host.docker.internal:3000
+ *                         (dev: docker run -p 3000:3000 ghcr.io/browserless/chromium)
+ * - RENDER_SERVICE_TOKEN: optional, sent as ?token=
+ * Options live in `scrapers.render`: wait_for_selector, network_idle,
+ * scroll_to_bottom (lazy loading) and timeout_ms. Scrapers with interaction
+ * steps (see actions.ts) or screenshots go through /function, not /content.
+ * Request profile headers and cookies (see request.ts) are applied to the
+ * page; its method and body are not.
+ * ============================================================================
+ */
+
+import { BROWSER_ENGINE } from "../_shared/llm/index.ts";
+import { ACTION_SCRIPT, type ActionStep, type PageAction } from "./actions.ts";
+import { baseHeaders, DEFAULT_REQUEST, type RequestProfile } from "./request.ts";
+
+export interface RenderOptions {
+  waitForSelector: string | null;
+  networkIdle: boolean;
+  scrollToBottom: boolean;
+  timeoutMs: number;
+}
+
+/** Hard ceiling regardless of configuration. */
+export const RENDER_TIMEOUT_LIMIT_MS = 60_000;
+
+export const isBrowserEngine = (engineType: string | null | undefined) =>
+  engineType === BROWSER_ENGINE || !!engineType?.startsWith(`${BROWSER_ENGINE}:`);
+
+export function normalizeRender(raw: unknown): RenderOptions {
+  const spec = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const timeout = Number(spec.timeout_ms ?? 30_000);
+
+  return {
+    waitForSelector: typeof spec.wait_for_selector === "string" && spec.wait_for_selector.trim()
+      ? spec.wait_for_selector.trim()
+      : null,
+    networkIdle: spec.network_idle !== false,
+    scrollToBottom: spec.scroll_to_bottom === true,
+    timeoutMs: Math.min(RENDER_TIMEOUT_LIMIT_MS, Math.max(1_000, Number.isFinite(timeout) ? timeout : 30_000)),
+  };
+}
+
+// Scrolls in viewport steps until the page stops growing (or 40 steps), then flags completion.
+const SCROLL_SCRIPT = `
+(async () => {
+  let last = -1;
+  for (let i = 0; i < 40 && document.body.scrollHeight !== last; i++) {
+    last = document.body.scrollHeight;
+    window.scrollTo(0, last);
+    await new Promise((r) => setTimeout(r, 400));
+  }
+  window.__apexScrolled = true;
+})();
+`;
+
+/** Side results of a render: interaction steps and the optional screenshot (base64 JPEG). */
+export type RenderExtras = { steps: ActionStep[]; screenshot: string | null };
+export type PageRenderer = (url: string, onRender?: (extras: RenderExtras) => Promise<void>) => Promise<Response>;
+
+interface RendererConfig {
+  actions?: PageAction[];
+  screenshot?: boolean;
+  request?: RequestProfile;
+}
+
+/**
+ * Returns a page loader that renders a URL and resolves to the DOM as a
+ * Response whose status mirrors the target's, so retries treat it like a
+ * plain fetch. Configuration errors throw here, not per page.
+ */
+export function createRenderer(
+  options: RenderOptions,
+  defaultUserAgent: string,
+  { actions = [], screenshot = false, request = DEFAULT_REQUEST }: RendererConfig = {},
+): PageRenderer {
+  const endpoint = Deno.env.get("RENDER_SERVICE_URL");
+  if (!endpoint) throw new Error("Server Config Error: Missing RENDER_SERVICE_URL");
+
+  const serviceUrl = (path: string) => {
+    const service = new URL(path, endpoint);
+    const token = Deno.env.get("RENDER_SERVICE_TOKEN");
+    if (token) service.searchParams.set("token", token);
+    return service;
+  };
+  const timeout = options.timeoutMs;
+  const waitUntil = options.networkIdle ? "networkidle2" : "domcontentloaded";
+  // Margin over the in-browser timeouts so the service can report its own errors.
+  const deadline = () => AbortSignal.timeout(timeout * (actions.length + 2) + 5_000);
+
+  // The browser sets User-Agent itself; the rest goes out as extra headers.
+  const { "user-agent": userAgent, ...extraHeaders } = baseHeaders(request, defaultUserAgent);
+  const cookiesFor = (url: string) => Object.entries(request.cookies).map(([name, value]) => ({ name, value, url }));
+
+  if (actions.length > 0 || screenshot) {
+    return async (url, onRender) => {
+      const resp = await fetch(serviceUrl("/function"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: ACTION_SCRIPT,
+          context: {
+            url,
+            userAgent,
+            headers: extraHeaders,
+            cookies: cookiesFor(url),
+            actions,
+            waitUntil,
+            waitForSelector: options.waitForSelector,
+            scrollToBottom: options.scrollToBottom,
+            networkIdle: options.networkIdle,
+            timeout,
+            screenshot,
+          },
+        }),
+        signal: deadline(),
+      });
+
+      if (!resp.ok) return resp;
+
+      const result = await resp.json() as { status: number; html: string } & RenderExtras;
+      await onRender?.({ steps: result.steps ?? [], screenshot: result.screenshot ?? null });
+      return new Response([204, 205, 304].includes(result.status) ? null : result.html, {
+        status: result.status || 200,
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    };
+  }
+
+  return async (url) => {
+    const resp = await fetch(serviceUrl("/content"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        url,
+        userAgent,
+        setExtraHTTPHeaders: extraHeaders,
+        cookies: cookiesFor(url),
+        gotoOptions: { waitUntil, timeout },
+        ...(options.waitForSelector && { waitForSelector: { selector: options.waitForSelector, timeout } }),
+        ...(options.scrollToBottom && {
+          addScriptTag: [{ content: SCROLL_SCRIPT }],
+          waitForFunction: { fn: "() => window.__apexScrolled === true", timeout },
+        }),
+      }),
+      signal: deadline(),
+    });
+
+    if (!resp.ok) return resp;
+
+    // Browserless reports the target's status in X-Response-Code.
+    const targetStatus = Number(resp.headers.get("x-response-code")) || resp.status;
+    const html = await resp.text();
+    return new Response([204, 205, 304].includes(targetStatus) ? null : html, {
+      status: targetStatus,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  };
+}
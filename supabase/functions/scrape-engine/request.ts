@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * 📨 APEXSCRAPE: REQUEST PROFILES
+ * ============================================================================
+ * `scrapers.request_profile` shapes the HTTP request sent for every page:
+ *   { method, headers: [{name, value}], cookies: [{name, value}],
+ *     query: [{name, value}], body_type: "none"|"form"|"json", body,
+ *     accept_language }
+ * - METHOD/BODY: only the job's own URL is sent as POST/PUT; pagination and
+ *   crawl links are always GET. The browser engine navigates with GET.
+ * - TEMPLATES: query values and the body may use {{page}}, {{date}}
+ *   (YYYY-MM-DD, UTC) and {{timestamp}} (unix seconds).
+ * - Custom headers override the defaults (User-Agent, Accept).
+ * ============================================================================
+ */
+
+export type RequestMethod = "GET" | "POST" | "PUT";
+export type BodyType = "none" | "form" | "json";
+
+export interface RequestProfile {
+  method: RequestMethod;
+  /** Lower-cased names; the later entry wins on duplicates. */
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+  query: [string, string][];
+  bodyType: BodyType;
+  body: string | null;
+  acceptLanguage: string | null;
+}
+
+export const DEFAULT_REQUEST: RequestProfile = {
+  method: "GET",
+  headers: {},
+  cookies: {},
+  query: [],
+  bodyType: "none",
+  body: null,
+  acceptLanguage: null,
+};
+
+/** Hard ceiling per list (headers, cookies, query) regardless of configuration. */
+export const REQUEST_PAIR_LIMIT = 50;
+
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Set by the runtime; sending them by hand breaks the request.
+const RESERVED_HEADERS = ["host", "content-length", "connection", "transfer-encoding", "cookie"];
+
+const pairsOf = (raw: unknown): [string, string][] => {
+  const entries: unknown[][] = Array.isArray(raw)
+    ? raw
+      .filter((p): p is Record<string, unknown> => !!p && typeof p === "object")
+      .map((p) => [p.name, p.value])
+    : raw && typeof raw === "object"
+    ? Object.entries(raw)
+    : [];
+
+  return entries
+    .filter((e): e is [string, string] => typeof e[0] === "string" && typeof e[1] === "string")
+    .map(([name, value]): [string, string] => [name.trim(), value])
+    // CR/LF would smuggle extra header lines.
+    .filter(([name, value]) => !!name && !/[\r\n]/.test(name + value))
+    .slice(0, REQUEST_PAIR_LIMIT);
+};
+
+export function normalizeRequest(raw: unknown): RequestProfile {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_REQUEST;
+  const spec = raw as Record<string, unknown>;
+
+  const method = ["GET", "POST", "PUT"].includes(String(spec.method).toUpperCase())
+    ? String(spec.method).toUpperCase() as RequestMethod
+    : "GET";
+  const bodyType = spec.body_type === "form" || spec.body_type === "json" ? spec.body_type : "none";
+  const hasBody = method !== "GET" && bodyType !== "none" && typeof spec.body === "string";
+
+  return {
+    method,
+    headers: Object.fromEntries(
+      pairsOf(spec.headers)
+        .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+        .filter(([name]) => TOKEN.test(name) && !RESERVED_HEADERS.includes(name)),
+    ),
+    cookies: Object.fromEntries(pairsOf(spec.cookies).filter(([name, value]) => TOKEN.test(name) && !value.includes(";"))),
+    query: pairsOf(spec.query),
+    bodyType: hasBody ? bodyType : "none",
+    body: hasBody ? spec.body as string : null,
+    acceptLanguage: typeof spec.accept_language === "string" && spec.accept_language.trim()
+      ? spec.accept_language.trim()
+      : null,
+  };
+}
+
+/** Replaces {{page}}, {{date}} and {{timestamp}}; unknown placeholders are left as-is. */
+export function fillTemplate(template: string, page: number, now = new Date()): string {
+  const vars: Record<string, string> = {
+    page: String(page),
+    date: now.toISOString().slice(0, 10),
+    timestamp: String(Math.floor(now.getTime() / 1000)),
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => vars[key] ?? match);
+}
+
+/** Target URL with the profile's query parameters applied (they replace existing ones). */
+export function withQuery(profile: RequestProfile, target: string, page: number): string {
+  if (profile.query.length === 0) return target;
+  const url = new URL(target);
+  for (const [name, value] of profile.query) url.searchParams.set(name, fillTemplate(value, page));
+  return url.toString();
+}
+
+/** Headers sent with every request, custom ones last. Cookies are handled separately. */
+export function baseHeaders(profile: RequestProfile, userAgent: string): Record<string, string> {
+  return {
+    "user-agent": userAgent,
+    "accept": "text/html,application/xhtml+xml",
+    ...(profile.acceptLanguage && { "accept-language": profile.acceptLanguage }),
+    ...profile.headers,
+  };
+}
+
+export const cookieHeader = (profile: RequestProfile) =>
+  Object.entries(profile.cookies).map(([name, value]) => `${name}=${value}`).join("; ");
+
+/**
+ * Builds the plain-fetch request for a page. `primary` marks the job's own
+ * URL, the only one sent with the profile's method and body.
+ */
+export function buildRequest(
+  profile: RequestProfile,
+  target: string,
+  page: number,
+  userAgent: string,
+  primary: boolean,
+): Request {
+  const headers = new Headers(baseHeaders(profile, userAgent));
+  const cookies = cookieHeader(profile);
+  if (cookies) headers.set("cookie", cookies);
+
+  const method = primary ? profile.method : "GET";
+  const body = method !== "GET" && profile.body !== null ? fillTemplate(profile.body, page) : undefined;
+  if (body !== undefined && !headers.has("content-type")) {
+    headers.set(
+      "content-type",
+      profile.bodyType === "json" ? "application/json" : "application/x-www-form-urlencoded",
+    );
+  }
+
+  return new Request(withQuery(profile, target, page), { method, headers, body });
+}
@@ -0,0 +1,129 @@
+/**
+ * ============================================================================
+ * 🔁 APEXSCRAPE: FETCH RETRY POLICY
+ * ============================================================================
+ * Per-scraper policy (`scrapers.retry_policy`), defaults when unset:
+ * - ATTEMPTS: max_attempts total fetches per page (first try included).
+ * - BACKOFF: base_delay_ms * 2^(attempt - 1), capped at max_delay_ms, with
+ *            jitter so parallel jobs don't retry in lockstep.
+ * - RETRYABLE: retry_on status codes, plus network errors unless
+ *              retry_network is false. Any other non-2xx fails immediately.
+ * - RETRY-AFTER: seconds or HTTP date; never retried sooner than asked.
+ * Waits longer than the caller allows inline are returned as `retryAt`.
+ * The request is a thunk, so plain fetches and browser renders retry alike.
+ * ============================================================================
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: number[];
+  retryNetwork: boolean;
+}
+
+/** Hard ceiling regardless of configuration. */
+export const RETRY_ATTEMPT_LIMIT = 10;
+export const DEFAULT_RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+const clampInt = (value: unknown, fallback: number, min: number, max: number) => {
+  const n = Number(value ?? fallback);
+  return Math.min(max, Math.max(min, Number.isFinite(n) ? Math.floor(n) : fallback));
+};
+
+export function normalizeRetry(raw: unknown): RetryPolicy {
+  const spec = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const baseDelayMs = clampInt(spec.base_delay_ms, 1_000, 0, 60_000);
+
+  return {
+    maxAttempts: clampInt(spec.max_attempts, 3, 1, RETRY_ATTEMPT_LIMIT),
+    baseDelayMs,
+    maxDelayMs: clampInt(spec.max_delay_ms, 30_000, baseDelayMs, 10 * 60_000),
+    retryOn: Array.isArray(spec.retry_on)
+      ? spec.retry_on.map(Number).filter((code) => Number.isInteger(code) && code >= 400 && code <= 599)
+      : DEFAULT_RETRY_STATUSES,
+    retryNetwork: spec.retry_network !== false,
+  };
+}
+
+/** Retry-After as milliseconds from `now`, or null when absent/unparseable. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+/** Delay before the retry that follows `attempt` (1-based). */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+export interface FetchAttempt {
+  attempt: number;
+  status: number | null;
+  error: string;
+  retryable: boolean;
+  /** Wait before the next attempt; null when this was the last one. */
+  retry_in_ms: number | null;
+}
+
+export type FetchOutcome =
+  | { ok: true; resp: Response; attempts: number }
+  | {
+    ok: false;
+    attempts: number;
+    status: number | null;
+    error: string;
+    errorClass: "network" | "http" | "timeout";
+    retryAt: Date | null;
+  };
+
+interface RetryOptions {
+  /** Attempts already spent by earlier invocations of the same job. */
+  attemptsSoFar?: number;
+  /** Longest wait slept inline; longer ones end the loop with `retryAt`. */
+  maxInlineWaitMs: number;
+  onAttempt?: (attempt: FetchAttempt) => Promise<void>;
+}
+
+export async function fetchWithRetry(
+  request: () => Promise<Response>,
+  policy: RetryPolicy,
+  options: RetryOptions,
+): Promise<FetchOutcome> {
+  for (let attempt = (options.attemptsSoFar ?? 0) + 1; ; attempt++) {
+    let status: number | null = null;
+    let error: string;
+    let errorClass: "network" | "http" | "timeout" = "http";
+    let retryable: boolean;
+    let retryAfter: number | null = null;
+
+    try {
+      const resp = await request();
+      if (resp.ok) return { ok: true, resp, attempts: attempt };
+
+      status = resp.status;
+      error = `Target returned status ${status}`;
+      retryable = policy.retryOn.includes(status);
+      retryAfter = parseRetryAfter(resp.headers.get("retry-after"));
+      await resp.body?.cancel();
+    } catch (e) {
+      errorClass = e instanceof Error && e.name === "TimeoutError" ? "timeout" : "network";
+      error = `${errorClass === "timeout" ? "Timed out" : "Network error"}: ${e instanceof Error ? e.message : String(e)}`;
+      retryable = policy.retryNetwork;
+    }
+
+    const last = !retryable || attempt >= policy.maxAttempts;
+    const wait = last ? null : Math.max(backoffDelay(policy, attempt), retryAfter ?? 0);
+    await options.onAttempt?.({ attempt, status, error, retryable, retry_in_ms: wait });
+
+    if (wait === null) return { ok: false, attempts: attempt, status, error, errorClass, retryAt: null };
+    if (wait > options.maxInlineWaitMs) {
+      return { ok: false, attempts: attempt, status, error, errorClass, retryAt: new Date(Date.now() + wait) };
+    }
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "@jest/globals";
+import { evaluateRobots, parseRobots } from "./robots.ts";
+
+describe("parseRobots", () => {
+  it("matches the group for our product token, ignoring its version", () => {
+    const policy = parseRobots([
+      "User-agent: *",
+      "Allow: /",
+      "",
+      "User-agent: ApexScrape/2.0",
+      "Disallow: /private",
+    ].join("\n"));
+
+    expect(evaluateRobots(policy, "https://example.com/private/page").allowed).toBe(false);
+    expect(evaluateRobots(policy, "https://example.com/public").allowed).toBe(true);
+  });
+
+  it("does not treat other agents that contain our name as ours", () => {
+    const policy = parseRobots([
+      "User-agent: NotApexScrapeBot",
+      "Disallow: /",
+      "",
+      "User-agent: *",
+      "Disallow: /admin",
+    ].join("\n"));
+
+    expect(evaluateRobots(policy, "https://example.com/page").allowed).toBe(true);
+    expect(evaluateRobots(policy, "https://example.com/admin").allowed).toBe(false);
+  });
+
+  it("ignores blank user-agent lines", () => {
+    const policy = parseRobots(["User-agent:", "Disallow: /"].join("\n"));
+
+    expect(evaluateRobots(policy, "https://example.com/").allowed).toBe(true);
+  });
+
+  it("reads the crawl delay of the chosen group", () => {
+    const policy = parseRobots(["User-agent: apexscrape", "Crawl-delay: 4", "Disallow: /tmp"].join("\n"));
+
+    expect(policy.crawlDelay).toBe(4);
+  });
+});
+
+describe("evaluateRobots", () => {
+  it("prefers the longest matching rule", () => {
+    const policy = parseRobots(["User-agent: *", "Disallow: /shop", "Allow: /shop/items"].join("\n"));
+
+    expect(evaluateRobots(policy, "https://example.com/shop/items/1").allowed).toBe(true);
+    expect(evaluateRobots(policy, "https://example.com/shop/cart").allowed).toBe(false);
+  });
+
+  it("supports wildcards and end anchors", () => {
+    const policy = parseRobots(["User-agent: *", "Disallow: /*.pdf$"].join("\n"));
+
+    expect(evaluateRobots(policy, "https://example.com/docs/a.pdf").allowed).toBe(false);
+    expect(evaluateRobots(policy, "https://example.com/docs/a.pdf?x=1").allowed).toBe(true);
+  });
+});
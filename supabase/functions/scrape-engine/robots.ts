@@ -0,0 +1,177 @@
+/**
+ * ============================================================================
+ * 🤖 APEXSCRAPE: ROBOTS.TXT COMPLIANCE
+ * ============================================================================
+ * - CACHE: one robots.txt per host in public.robots_cache (24h TTL), shared
+ *   by every invocation; memoized per invocation on top.
+ * - MATCHING: RFC 9309 — the "ApexScrape" group if present, else "*";
+ *   longest matching rule wins, Allow wins ties; "*" and "$" wildcards.
+ * - UNREACHABLE: 4xx means no restrictions, 5xx / network errors /
+ *   timeouts mean disallow everything (and are not cached).
+ * - CRAWL-DELAY: spaced across concurrent jobs via claim_crawl_slot().
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+
+export const ROBOTS_AGENT = "ApexScrape";
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+/** Longest Crawl-delay honored by sleeping; larger values are capped. */
+const MAX_CRAWL_DELAY_S = 60;
+/** robots.txt request limit, body included; a hung host counts as unreachable. */
+const ROBOTS_TIMEOUT_MS = 10_000;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export type RobotsVerdict =
+  | { allowed: true; crawlDelay: number | null }
+  | { allowed: false; crawlDelay: number | null; rule: string; reason: string };
+
+const productToken = (agent: string) => agent.split("/")[0].trim().toLowerCase();
+
+export function parseRobots(body: string, agent = ROBOTS_AGENT): RobotsPolicy {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const sep = line.indexOf(":");
+    if (sep === -1) continue;
+
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      // Product token only ("ApexScrape/2.0" -> "apexscrape"); blank lines name nobody.
+      const product = productToken(value);
+      if (product) current.agents.push(product);
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ allow: key === "allow", path: value });
+    } else if (key === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const token = productToken(agent);
+  const specific = groups.filter((g) => g.agents.includes(token));
+  const chosen = specific.length ? specific : groups.filter((g) => g.agents.includes("*"));
+
+  return {
+    rules: chosen.flatMap((g) => g.rules),
+    crawlDelay: chosen.find((g) => g.crawlDelay !== null)?.crawlDelay ?? null,
+  };
+}
+
+function ruleMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith("$");
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(path);
+}
+
+export function evaluateRobots(policy: RobotsPolicy, url: string): RobotsVerdict {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!ruleMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  if (!best || best.allow) return { allowed: true, crawlDelay: policy.crawlDelay };
+  return {
+    allowed: false,
+    crawlDelay: policy.crawlDelay,
+    rule: `Disallow: ${best.path}`,
+    reason: `robots.txt disallows ${path} for ${ROBOTS_AGENT} (Disallow: ${best.path}).`,
+  };
+}
+
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, path: "/" }], crawlDelay: null };
+
+async function loadPolicy(supabase: SupabaseClient, origin: string, userAgent: string): Promise<RobotsPolicy> {
+  const host = new URL(origin).host;
+
+  const { data: cached } = await supabase
+    .from("robots_cache")
+    .select("status, body, fetched_at")
+    .eq("host", host)
+    .maybeSingle();
+
+  if (cached && Date.now() - new Date(cached.fetched_at).getTime() < CACHE_TTL_MS) {
+    return cached.status >= 400 ? { rules: [], crawlDelay: null } : parseRobots(cached.body);
+  }
+
+  let status: number;
+  let body = "";
+  try {
+    const resp = await fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+    });
+    status = resp.status;
+    if (resp.ok) body = await resp.text();
+  } catch (_e) {
+    return DISALLOW_ALL;
+  }
+
+  if (status >= 500) return DISALLOW_ALL;
+
+  await supabase.from("robots_cache").upsert({ host, status, body, fetched_at: new Date().toISOString() });
+  return status >= 400 ? { rules: [], crawlDelay: null } : parseRobots(body);
+}
+
+export interface RobotsGate {
+  check: (url: string) => Promise<RobotsVerdict>;
+  /** Blocks until this job's turn under the host's Crawl-delay. */
+  waitForSlot: (url: string, crawlDelay: number | null) => Promise<void>;
+}
+
+export function createRobotsGate(supabase: SupabaseClient, userAgent: string): RobotsGate {
+  const policies = new Map<string, Promise<RobotsPolicy>>();
+
+  return {
+    async check(url) {
+      const { origin } = new URL(url);
+      if (!policies.has(origin)) policies.set(origin, loadPolicy(supabase, origin, userAgent));
+      return evaluateRobots(await policies.get(origin)!, url);
+    },
+
+    async waitForSlot(url, crawlDelay) {
+      if (!crawlDelay) return;
+      const { data: slot, error } = await supabase.rpc("claim_crawl_slot", {
+        p_host: new URL(url).host,
+        p_delay_seconds: Math.min(crawlDelay, MAX_CRAWL_DELAY_S),
+      });
+      if (error) throw error;
+
+      const wait = new Date(slot as string).getTime() - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    },
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * 🧬 APEXSCRAPE: TARGET SCHEMA NORMALIZER
+ * ============================================================================
+ * Accepts every shape the client builders persist into `target_schema`:
+ * - "key": "description"                         (legacy Architect)
+ * - "key": "number"                              (legacy SchemaBuilder)
+ * - "key": { type?, required?, description?, selector?, attribute?, path?,
+ *            multiple?, fields? }  (SchemaBuilder / CssConfigDrawer / Architect)
+ * `fields` nests child specs: properties of an object, or the per-item shape
+ * of an array of objects (selectors inside are relative to the item).
+ * ============================================================================
+ */
+
+export const FIELD_TYPES = ["string", "number", "boolean", "array", "object"] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export interface FieldSpec {
+  key: string;
+  type?: FieldType;
+  required?: boolean;
+  description?: string;
+  selector?: string;
+  attribute?: string;
+  /** JSONPath into JSON / XML / CSV sources (see sources.ts). */
+  path?: string;
+  multiple?: boolean;
+  children?: FieldSpec[];
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const asFieldType = (value: unknown): FieldType | undefined =>
+  FIELD_TYPES.find((t) => t === value);
+
+export function normalizeSchema(raw: unknown): FieldSpec[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return [];
+
+  return Object.entries(raw as Record<string, unknown>).map(([key, value]) => {
+    if (typeof value === "string") {
+      const type = asFieldType(value.trim());
+      return type ? { key, type } : { key, description: value };
+    }
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const spec = value as Record<string, unknown>;
+      const type = asFieldType(spec.type);
+      return {
+        key,
+        type,
+        required: spec.required === true,
+        description: asString(spec.description),
+        selector: asString(spec.selector),
+        attribute: asString(spec.attribute),
+        path: asString(spec.path),
+        multiple: spec.multiple === true || type === "array",
+        children: spec.fields ? normalizeSchema(spec.fields) : undefined,
+      };
+    }
+
+    return { key };
+  });
+}
+
+export function isSelectorField(field: FieldSpec): boolean {
+  if (!field.children?.length) return !!field.selector;
+  // Arrays of objects need a container selector to delimit items.
+  if (field.type === "array" && !field.selector) return false;
+  return field.children.every(isSelectorField);
+}
+
+/** Compact, model-readable template of the expected JSON output. */
+export function toPromptSchema(fields: FieldSpec[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field.key, describeField(field)]));
+}
+
+function describeField(field: FieldSpec): unknown {
+  if (field.children?.length) {
+    const shape = toPromptSchema(field.children);
+    return field.type === "array" ? [shape] : shape;
+  }
+  return [field.type, field.required ? "required" : undefined, field.description]
+    .filter(Boolean)
+    .join(" | ");
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "@jest/globals";
+import { extractWithSelectors } from "./selectors.ts";
+
+const HTML = `
+  <h1> Widget </h1>
+  <a class="buy" href="/buy">Buy</a>
+  <ul><li class="item"><b>A</b><i>1</i></li><li class="item"><b>B</b><i>2</i></li></ul>`;
+
+describe("extractWithSelectors", () => {
+  it("reads text, attributes and nested items", () => {
+    const result = extractWithSelectors(HTML, [
+      { key: "title", selector: "h1" },
+      { key: "link", selector: "a.buy", attribute: "href" },
+      { key: "items", type: "array", selector: "li.item", children: [{ key: "name", selector: "b" }, { key: "qty", selector: "i" }] },
+    ]);
+
+    expect(result.data).toEqual({
+      title: "Widget",
+      link: "/buy",
+      items: [{ name: "A", qty: "1" }, { name: "B", qty: "2" }],
+    });
+    expect(result.missed).toEqual([]);
+  });
+
+  it("treats a field with an invalid selector as missed", () => {
+    const result = extractWithSelectors(HTML, [
+      { key: "title", selector: "h1" },
+      { key: "items", type: "array", selector: "li.item", children: [{ key: "name", selector: "b[" }] },
+    ]);
+
+    expect(result.data).toEqual({ title: "Widget", items: null });
+    expect(result.missed).toEqual(["items"]);
+    expect(result.invalid).toEqual(["Invalid selector for 'name': b["]);
+  });
+});
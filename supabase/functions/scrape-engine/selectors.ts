@@ -0,0 +1,101 @@
+/**
+ * ============================================================================
+ * 🎯 APEXSCRAPE: DETERMINISTIC SELECTOR EXTRACTOR
+ * ============================================================================
+ * Resolves selector-backed fields against the raw DOM with cheerio.
+ * No LLM involved: identical HTML always yields identical output.
+ * Nested fields resolve relative to their parent's match (object scope or
+ * each array item).
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { FieldSpec } from "./schema.ts";
+
+export interface SelectorResult {
+  data: Record<string, unknown>;
+  matched: string[];
+  missed: string[];
+  /** Why fields were skipped as unparseable (bad selector or path); those keys are in `missed`. */
+  invalid: string[];
+}
+
+type Query = (selector: string) => Cheerio<any>;
+
+export function extractWithSelectors(
+  html: string,
+  fields: FieldSpec[],
+): SelectorResult {
+  const $ = cheerio.load(html);
+  const data: Record<string, unknown> = {};
+  const matched: string[] = [];
+  const missed: string[] = [];
+  const invalid: string[] = [];
+
+  for (const field of fields) {
+    let value: unknown = null;
+    try {
+      value = resolveField($, (selector) => $(selector), field);
+    } catch (e: any) {
+      // One malformed selector (including a nested one) only costs its own field.
+      invalid.push(e.message);
+    }
+    data[field.key] = value;
+    (isEmptyValue(value) ? missed : matched).push(field.key);
+  }
+
+  return { data, matched, missed, invalid };
+}
+
+function select(query: Query, field: FieldSpec): Cheerio<any> {
+  try {
+    return query(field.selector!);
+  } catch (_e) {
+    throw new Error(`Invalid selector for '${field.key}': ${field.selector}`);
+  }
+}
+
+function resolveChildren(
+  $: CheerioAPI,
+  query: Query,
+  children: FieldSpec[],
+): Record<string, unknown> {
+  return Object.fromEntries(
+    children.map((child) => [child.key, resolveField($, query, child)]),
+  );
+}
+
+function resolveField($: CheerioAPI, query: Query, field: FieldSpec): unknown {
+  if (field.children?.length) {
+    if (field.type === "array") {
+      return select(query, field)
+        .toArray()
+        .map((el) => resolveChildren($, (selector) => $(el).find(selector), field.children!));
+    }
+
+    if (!field.selector) return resolveChildren($, query, field.children);
+
+    const scope = select(query, field).first();
+    if (scope.length === 0) return null;
+    return resolveChildren($, (selector) => scope.find(selector), field.children);
+  }
+
+  const values = select(query, field)
+    .toArray()
+    .map((el) => {
+      const node = $(el);
+      const raw = field.attribute ? node.attr(field.attribute) : node.text();
+      return (raw ?? "").replace(/\s+/g, " ").trim();
+    })
+    .filter((value) => value.length > 0);
+
+  return field.multiple ? values : values[0] ?? null;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.values(value).every(isEmptyValue);
+  return false;
+}
@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * 📸 APEXSCRAPE: PAGE SNAPSHOTS
+ * ============================================================================
+ * With `scrapers.snapshots` on, every fetched page is stored in the private
+ * "snapshots" bucket before extraction:
+ *   <user_id>/<job_id>/page-<n>.html   raw (or rendered) HTML
+ *   <user_id>/<job_id>/page-<n>.jpg    full-page screenshot, browser engine only
+ * Paths are referenced from extracted_data.metadata.snapshot; the folder
+ * prefix is what the storage policy checks against auth.uid().
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+
+export const SNAPSHOT_BUCKET = "snapshots";
+
+export type SnapshotRef = { html: string; screenshot: string | null };
+
+interface SnapshotInput {
+  userId: string;
+  jobId: string;
+  page: number;
+  html: string;
+  /** Base64 JPEG from the render service. */
+  screenshot: string | null;
+}
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+
+export async function storeSnapshot(supabase: SupabaseClient, input: SnapshotInput): Promise<SnapshotRef> {
+  const base = `${input.userId}/${input.jobId}/page-${input.page}`;
+  const bucket = supabase.storage.from(SNAPSHOT_BUCKET);
+
+  const { error: htmlError } = await bucket.upload(`${base}.html`, input.html, {
+    contentType: "text/html; charset=utf-8",
+    upsert: true,
+  });
+  if (htmlError) throw htmlError;
+
+  if (!input.screenshot) return { html: `${base}.html`, screenshot: null };
+
+  const { error: imageError } = await bucket.upload(`${base}.jpg`, fromBase64(input.screenshot), {
+    contentType: "image/jpeg",
+    upsert: true,
+  });
+  if (imageError) throw imageError;
+
+  return { html: `${base}.html`, screenshot: `${base}.jpg` };
+}
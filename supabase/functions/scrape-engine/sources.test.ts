@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import { detectFormat, extractWithPaths, parseSource, resolvePath } from "./sources.ts";
+
+describe("detectFormat", () => {
+  it("trusts the content type, then sniffs the body", () => {
+    expect(detectFormat("auto", "application/ld+json; charset=utf-8", "")).toBe("json");
+    expect(detectFormat("auto", "text/csv", "")).toBe("csv");
+    expect(detectFormat("auto", "text/plain", '<?xml version="1.0"?><rss></rss>')).toBe("xml");
+    expect(detectFormat("auto", null, '{"a": 1}')).toBe("json");
+    expect(detectFormat("auto", null, "{not json")).toBe("html");
+    expect(detectFormat("csv", "text/html", "<p>")).toBe("csv");
+  });
+});
+
+describe("resolvePath", () => {
+  const doc = { store: { books: [{ title: "A", price: 5 }, { title: "B", price: 7 }], "the-name": "Shop" } };
+
+  it.each([
+    ["$.store.books[0].title", ["A"]],
+    ["$.store.books[-1].title", ["B"]],
+    ["$.store.books[*].price", [5, 7]],
+    ["$..title", ["A", "B"]],
+    ["$.store['the-name']", ["Shop"]],
+    ["store.books.title", ["A", "B"]],
+    ["$.store.missing", []],
+  ])("resolves %s", (path, expected) => {
+    expect(resolvePath(doc, path)).toEqual(expected);
+  });
+
+  it("throws on malformed paths", () => {
+    expect(() => resolvePath(doc, "$.store[")).toThrow("Invalid path");
+  });
+});
+
+describe("extractWithPaths", () => {
+  it("maps nested fields relative to each array item", () => {
+    const source = parseSource("json", JSON.stringify({ items: [{ n: "A", p: "1" }, { n: "B", p: "2" }] }));
+
+    const result = extractWithPaths(source, [
+      { key: "items", type: "array", path: "$.items", children: [{ key: "name", path: "n" }, { key: "price", path: "p" }] },
+    ]);
+
+    expect(result.data).toEqual({ items: [{ name: "A", price: "1" }, { name: "B", price: "2" }] });
+    expect(result.matched).toEqual(["items"]);
+  });
+
+  it("uses feed items as records for array fields without a path", () => {
+    const source = parseSource("xml", [
+      "<rss><channel>",
+      "<item><title>One</title><guid isPermaLink=\"false\">1</guid></item>",
+      "<item><title><![CDATA[Two & more]]></title><guid isPermaLink=\"false\">2</guid></item>",
+      "</channel></rss>",
+    ].join(""));
+
+    const { data } = extractWithPaths(source, [
+      { key: "posts", type: "array", children: [{ key: "title", path: "title" }, { key: "id", path: "guid" }] },
+    ]);
+
+    expect(data.posts).toEqual([{ title: "One", id: "1" }, { title: "Two & more", id: "2" }]);
+  });
+
+  it("reads CSV rows with a detected delimiter and quoted cells", () => {
+    const source = parseSource("csv", 'name;note\nA;"x; ""y"""\nB;z\n');
+
+    expect(extractWithPaths(source, [{ key: "notes", multiple: true, path: "$[*].note" }]).data)
+      .toEqual({ notes: ['x; "y"', "z"] });
+  });
+
+  it("treats a field with an invalid path as missed", () => {
+    const source = parseSource("json", '{"a": 1}');
+
+    const result = extractWithPaths(source, [{ key: "a", path: "$.a" }, { key: "b", path: "$.a[" }]);
+
+    expect(result.data).toEqual({ a: 1, b: null });
+    expect(result.missed).toEqual(["b"]);
+    expect(result.invalid).toEqual(["Invalid path for 'b': $.a["]);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * ============================================================================
+ * 🗂️ APEXSCRAPE: DATA SOURCES (JSON / XML / CSV)
+ * ============================================================================
+ * Non-HTML responses are parsed natively instead of being reduced to text:
+ * - FORMAT: `scrapers.source_format` ("auto" by default) or, in auto mode,
+ *   the Content-Type header, falling back to sniffing the body.
+ * - JSON: parsed as-is.
+ * - XML (RSS / Atom / sitemaps): elements become keys (repeated -> array),
+ *   attributes "@name", mixed text "#text".
+ * - CSV: one object per row, keyed by the header row; delimiter detected.
+ * Fields map with `path`, a JSONPath subset ($, .key, ['key'], [n], [*], ..key).
+ * Paths of nested fields are relative to their parent's match. An array field
+ * without a path takes the source's records: feed items, sitemap URLs, CSV
+ * rows or a top-level JSON array.
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+import type { FieldSpec } from "./schema.ts";
+import { isEmptyValue, type SelectorResult } from "./selectors.ts";
+
+export const SOURCE_FORMATS = ["auto", "html", "json", "xml", "csv"] as const;
+export type SourceSetting = (typeof SOURCE_FORMATS)[number];
+export type SourceFormat = Exclude<SourceSetting, "auto">;
+
+export interface ParsedSource {
+  format: SourceFormat;
+  doc: unknown;
+  /** Default record list for array fields without a path; null when the source has none. */
+  records: unknown[] | null;
+}
+
+export const normalizeSourceFormat = (raw: unknown): SourceSetting =>
+  SOURCE_FORMATS.find((f) => f === raw) ?? "auto";
+
+export function detectFormat(setting: SourceSetting, contentType: string | null, body: string): SourceFormat {
+  if (setting !== "auto") return setting;
+
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (type === "application/json" || type.endsWith("+json")) return "json";
+  if (type === "text/csv" || type === "application/csv") return "csv";
+  if (type === "text/xml" || type === "application/xml" || type.endsWith("+xml")) return "xml";
+  if (type === "text/html") return "html";
+
+  // Missing or generic types (text/plain, octet-stream): sniff.
+  const head = body.trimStart().slice(0, 200);
+  if (/^<\?xml|^<(rss|feed|urlset|sitemapindex|rdf:RDF)[\s>]/i.test(head)) return "xml";
+  if (/^[[{]/.test(head)) {
+    try {
+      JSON.parse(body);
+      return "json";
+    } catch (_e) { /* not JSON after all */ }
+  }
+  return "html";
+}
+
+/** Throws on malformed input; the caller decides whether to fall back to HTML. */
+export function parseSource(format: Exclude<SourceFormat, "html">, body: string): ParsedSource {
+  if (format === "json") {
+    const doc = JSON.parse(body);
+    return { format, doc, records: Array.isArray(doc) ? doc : null };
+  }
+  if (format === "csv") {
+    const rows = parseCsv(body);
+    return { format, doc: rows, records: rows };
+  }
+  const doc = parseXml(body);
+  return { format, doc, records: feedRecords(doc) };
+}
+
+// --- XML ---
+
+const FEED_PATHS = ["$.rss.channel.item", "$.feed.entry", "$['rdf:RDF'].item", "$.urlset.url", "$.sitemapindex.sitemap"];
+
+function feedRecords(doc: unknown): unknown[] | null {
+  for (const path of FEED_PATHS) {
+    const items = flatten(resolvePath(doc, path));
+    if (items.length > 0) return items;
+  }
+  return null;
+}
+
+function parseXml(body: string): Record<string, unknown> {
+  const $ = cheerio.load(body, { xml: true });
+  const roots = $.root().children().toArray();
+  if (roots.length === 0) throw new Error("No XML root element");
+
+  const toNode = (el: any): unknown => {
+    const node: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(el.attribs ?? {})) node[`@${name}`] = value;
+
+    for (const child of $(el).children().toArray() as any[]) {
+      const value = toNode(child);
+      const existing = node[child.name];
+      node[child.name] = existing === undefined
+        ? value
+        : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+
+    const text = $(el)
+      .contents()
+      .toArray()
+      .map((n: any) => (n.type === "text" ? n.data : n.type === "cdata" ? n.children.map((c: any) => c.data).join("") : ""))
+      .join("")
+      .trim();
+    if (Object.keys(node).length === 0) return text;
+    if (text) node["#text"] = text;
+    return node;
+  };
+
+  return Object.fromEntries(roots.map((el: any) => [el.name, toNode(el)]));
+}
+
+// --- CSV ---
+
+function parseCsv(body: string): Record<string, string>[] {
+  const text = body.replace(/^\uFEFF/, "");
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t", "|"]
+    .map((d) => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+
+  const [header, ...data] = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  if (!header) throw new Error("Empty CSV");
+  const columns = header.map((name) => name.trim());
+
+  return data.map((values) => Object.fromEntries(columns.map((name, i) => [name, values[i]?.trim() ?? ""])));
+}
+
+// --- PATHS ---
+
+type PathStep =
+  | { kind: "key"; key: string; deep: boolean }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard"; deep: boolean };
+
+const STEP = /^(\.\.|\.)?(?:\[\s*(\*|-?\d+|'[^']*'|"[^"]*")\s*\]|(\*)|([^.[\]]+))/;
+
+function parsePath(path: string): PathStep[] {
+  let rest = path.trim().replace(/^\$/, "");
+  // Relative shorthand: "title" means "$.title".
+  if (rest && !/^[.[]/.test(rest)) rest = `.${rest}`;
+
+  const steps: PathStep[] = [];
+  while (rest) {
+    const match = STEP.exec(rest);
+    if (!match) throw new Error(`Invalid path: ${path}`);
+    const [token, dots, bracket, star, key] = match;
+    const deep = dots === "..";
+
+    if (star || bracket === "*") steps.push({ kind: "wildcard", deep });
+    else if (bracket !== undefined && /^-?\d+$/.test(bracket)) steps.push({ kind: "index", index: Number(bracket) });
+    else steps.push({ kind: "key", key: bracket !== undefined ? bracket.slice(1, -1) : key, deep });
+
+    rest = rest.slice(token.length);
+  }
+  return steps;
+}
+
+const childrenOf = (node: unknown): unknown[] =>
+  Array.isArray(node) ? node : node && typeof node === "object" ? Object.values(node) : [];
+
+const descendantsOf = (node: unknown): unknown[] =>
+  [node, ...childrenOf(node).flatMap(descendantsOf)];
+
+function keyOf(node: unknown, key: string, throughArrays = true): unknown[] {
+  // Keys reach through arrays, so one XML element and several behave alike.
+  if (Array.isArray(node)) return throughArrays ? node.flatMap((item) => keyOf(item, key)) : [];
+  if (node && typeof node === "object" && key in node) return [(node as Record<string, unknown>)[key]];
+  return [];
+}
+
+/** Every node matched by `path`, evaluated from `root` ("$"). */
+export function resolvePath(root: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [root];
+
+  for (const step of parsePath(path)) {
+    const scope = "deep" in step && step.deep ? nodes.flatMap(descendantsOf) : nodes;
+    nodes = scope.flatMap((node) => {
+      if (step.kind === "wildcard") return childrenOf(node);
+      // Descendants already include array items; reaching through again would duplicate them.
+      if (step.kind === "key") return keyOf(node, step.key, !step.deep);
+      if (!Array.isArray(node)) return [];
+      const value = node.at(step.index);
+      return value === undefined ? [] : [value];
+    });
+  }
+  return nodes;
+}
+
+const flatten = (nodes: unknown[]) => nodes.flatMap((node) => (Array.isArray(node) ? node : [node]));
+
+/** XML elements that carry attributes hold their text under "#text". */
+const unwrapText = (value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value) && "#text" in value
+    ? (value as Record<string, unknown>)["#text"]
+    : value;
+
+// --- FIELD MAPPING ---
+
+export function isPathField(field: FieldSpec, source: ParsedSource): boolean {
+  if (!field.children?.length) return !!field.path;
+  // Arrays of objects need a path (or the source's records) to delimit items.
+  if (field.type === "array" && !field.path && !source.records) return false;
+  return field.children.every((child) => isPathField(child, source));
+}
+
+export function extractWithPaths(source: ParsedSource, fields: FieldSpec[]): SelectorResult {
+  const data: Record<string, unknown> = {};
+  const matched: string[] = [];
+  const missed: string[] = [];
+  const invalid: string[] = [];
+
+  for (const field of fields) {
+    let value: unknown = null;
+    try {
+      value = resolveField(source.doc, field, source.records);
+    } catch (e: any) {
+      // One malformed path (including a nested one) only costs its own field.
+      invalid.push(e.message);
+    }
+    data[field.key] = value;
+    (isEmptyValue(value) ? missed : matched).push(field.key);
+  }
+
+  return { data, matched, missed, invalid };
+}
+
+function match(scope: unknown, field: FieldSpec): unknown[] {
+  try {
+    return resolvePath(scope, field.path!);
+  } catch (_e) {
+    throw new Error(`Invalid path for '${field.key}': ${field.path}`);
+  }
+}
+
+function resolveChildren(scope: unknown, children: FieldSpec[]): Record<string, unknown> {
+  return Object.fromEntries(children.map((child) => [child.key, resolveField(scope, child, null)]));
+}
+
+function resolveField(scope: unknown, field: FieldSpec, records: unknown[] | null): unknown {
+  if (field.children?.length) {
+    if (field.type === "array") {
+      const items = field.path ? flatten(match(scope, field)) : records ?? [];
+      return items.map((item) => resolveChildren(item, field.children!));
+    }
+
+    if (!field.path) return resolveChildren(scope, field.children);
+
+    const [first] = flatten(match(scope, field));
+    return first === undefined ? null : resolveChildren(first, field.children);
+  }
+
+  const values = flatten(match(scope, field))
+    .map(unwrapText)
+    .filter((value) => value !== null && value !== undefined && value !== "");
+
+  return field.multiple ? values : values[0] ?? null;
+}
@@ -0,0 +1,74 @@
+/**
+ * ============================================================================
+ * 🚥 APEXSCRAPE: JOB STATE MACHINE
+ * ============================================================================
+ *   pending ──> running ──> completed | failed | cancelled
+ *      │          │
+ *      │          └──> pending   (deferred: rate limit / Retry-After)
+ *      └──> failed | cancelled
+ * completed, failed and cancelled are terminal. The same table is enforced
+ * by the scraping_jobs_status_transition trigger; updating with a status
+ * guard here means a lost race (e.g. a cancel) is a no-op, not an error.
+ * Jobs claimed by scrape-worker are already running and leased to it.
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  pending: ["running", "failed", "cancelled"],
+  running: ["pending", "completed", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+const sourcesOf = (to: JobStatus) =>
+  (Object.keys(TRANSITIONS) as JobStatus[]).filter((from) => TRANSITIONS[from].includes(to));
+
+/**
+ * Moves a job to `to` (plus any extra columns) if its current status allows it.
+ * Returns false when the job was not in a valid source state.
+ */
+export async function transitionJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  to: JobStatus,
+  patch: Record<string, unknown> = {},
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("scraping_jobs")
+    .update({ ...patch, status: to })
+    .eq("id", jobId)
+    .in("status", sourcesOf(to))
+    .select("id");
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+/** True while `workerId` holds the lease on the running job. */
+export async function holdsLease(supabase: SupabaseClient, jobId: string, workerId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("scraping_jobs")
+    .select("id")
+    .eq("id", jobId)
+    .eq("status", "running")
+    .eq("claimed_by", workerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+/** Mirrors a run's status onto its scraper (scrapers.last_run_status, last_run_at). */
+export async function recordScraperRun(supabase: SupabaseClient, scraperId: string, status: JobStatus): Promise<void> {
+  const { error } = await supabase
+    .from("scrapers")
+    .update({ last_run_status: status, last_run_at: new Date().toISOString() })
+    .eq("id", scraperId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "@jest/globals";
+import { harvestStructuredData, resolveFromHints } from "./structured.ts";
+
+const page = (...jsonLd: unknown[]) =>
+  `<html><head>${
+    jsonLd.map((entity) => `<script type="application/ld+json">${JSON.stringify(entity)}</script>`).join("")
+  }</head><body></body></html>`;
+
+describe("resolveFromHints", () => {
+  it("reads fields from the product, not the site entity listed before it", () => {
+    const hints = harvestStructuredData(page(
+      { "@context": "https://schema.org", "@type": "WebSite", name: "Shop", url: "https://shop.example" },
+      { "@context": "https://schema.org", "@type": "Product", name: "Widget", sku: "W-1" },
+    ));
+
+    const { data, resolved } = resolveFromHints(hints, [{ key: "name" }, { key: "sku" }]);
+
+    expect(data).toEqual({ name: "Widget", sku: "W-1" });
+    expect(resolved).toEqual(["name", "sku"]);
+  });
+
+  it("does not fill gaps from other entities on the page", () => {
+    const hints = harvestStructuredData(page(
+      { "@type": "Organization", name: "Acme", telephone: "555-0100" },
+      { "@type": "Article", headline: "Launch day" },
+    ));
+
+    const { data, resolved } = resolveFromHints(hints, [{ key: "headline" }, { key: "telephone" }]);
+
+    expect(data).toEqual({ headline: "Launch day" });
+    expect(resolved).toEqual(["headline"]);
+  });
+
+  it("skips fields with nested children", () => {
+    const hints = harvestStructuredData(page({ "@type": "Product", name: "Widget", offers: { price: "9" } }));
+
+    expect(resolveFromHints(hints, [{ key: "offers", type: "object", children: [{ key: "price" }] }]).resolved)
+      .toEqual([]);
+  });
+});
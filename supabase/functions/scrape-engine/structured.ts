@@ -0,0 +1,190 @@
+/**
+ * ============================================================================
+ * 🏷️ APEXSCRAPE: STRUCTURED DATA HARVESTER
+ * ============================================================================
+ * Reads what the publisher already declares, before the DOM is reduced:
+ * - JSON-LD:   <script type="application/ld+json"> (incl. @graph)
+ * - MICRODATA: itemscope / itemprop trees
+ * - OPENGRAPH: og:*, article:*, product:*, twitter:* meta tags
+ * Leaf schema fields whose names match a declared property are resolved here
+ * and never reach the LLM. Fields come from one primary entity (the Product
+ * or Article, not the site's WebSite / Organization), then OpenGraph.
+ * ============================================================================
+ */
+
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { FieldSpec } from "./schema.ts";
+
+export type StructuredHints = {
+  json_ld: Record<string, unknown>[];
+  microdata: Record<string, unknown>[];
+  opengraph: Record<string, string>;
+};
+
+export interface HintResolution {
+  data: Record<string, unknown>;
+  resolved: string[];
+}
+
+/** Normalized schema key -> normalized hint keys to try, in order. */
+const ALIASES: Record<string, string[]> = {
+  name: ["name", "headline", "title"],
+  title: ["headline", "name", "title"],
+  productname: ["name", "title"],
+  headline: ["headline", "name", "title"],
+  price: ["price", "lowprice"],
+  currency: ["pricecurrency"],
+  author: ["author", "creator"],
+  published: ["datepublished", "publishedtime"],
+  publishedat: ["datepublished", "publishedtime"],
+  publishdate: ["datepublished", "publishedtime"],
+  datepublished: ["datepublished", "publishedtime"],
+  updatedat: ["datemodified", "modifiedtime"],
+  datemodified: ["datemodified", "modifiedtime"],
+  summary: ["description"],
+  imageurl: ["image"],
+  rating: ["ratingvalue"],
+  reviewcount: ["reviewcount", "ratingcount"],
+  stock: ["availability"],
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Entity types that describe the page's subject, in order of preference. */
+const PRIMARY_TYPES = ["product", "article", "newsarticle", "blogposting"];
+/** Site-wide entities; never the subject of a page. */
+const SITE_TYPES = ["website", "organization", "webpage", "breadcrumblist", "sitenavigationelement", "searchaction"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+export function harvestStructuredData(html: string): StructuredHints {
+  const $ = cheerio.load(html);
+  return { json_ld: readJsonLd($), microdata: readMicrodata($), opengraph: readOpenGraph($) };
+}
+
+function readJsonLd($: CheerioAPI): Record<string, unknown>[] {
+  const entities: Record<string, unknown>[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(collect);
+    if (!isPlainObject(value)) return;
+    if (Array.isArray(value["@graph"])) return collect(value["@graph"]);
+    entities.push(value);
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      collect(JSON.parse($(el).text()));
+    } catch (_e) {
+      // Malformed blocks are common; the other sources still apply.
+    }
+  });
+  return entities;
+}
+
+function readMicrodata($: CheerioAPI): Record<string, unknown>[] {
+  const readItem = (item: any): Record<string, unknown> => {
+    const type = $(item).attr("itemtype");
+    const out: Record<string, unknown> = type ? { "@type": type.split("/").pop() } : {};
+
+    $(item).find("[itemprop]").each((_, prop) => {
+      if ($(prop).parent().closest("[itemscope]")[0] !== item) return;
+      const node = $(prop);
+      const value = node.is("[itemscope]")
+        ? readItem(prop)
+        : node.attr("content") ?? node.attr("datetime") ?? node.attr("href") ?? node.attr("src") ??
+          node.attr("value") ?? node.text().replace(/\s+/g, " ").trim();
+
+      for (const name of (node.attr("itemprop") ?? "").split(/\s+/).filter(Boolean)) {
+        const existing = out[name];
+        out[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+      }
+    });
+    return out;
+  };
+
+  return $("[itemscope]:not([itemprop])").toArray().map(readItem);
+}
+
+function readOpenGraph($: CheerioAPI): Record<string, string> {
+  const out: Record<string, string> = {};
+  $("meta[property], meta[name]").each((_, el) => {
+    const key = $(el).attr("property") ?? $(el).attr("name") ?? "";
+    const content = $(el).attr("content");
+    if (/^(og|article|product|twitter):/.test(key) && content && !(key in out)) out[key] = content.trim();
+  });
+  return out;
+}
+
+const typesOf = (entity: Record<string, unknown>) =>
+  [entity["@type"]].flat().filter((t): t is string => typeof t === "string").map((t) => normalizeKey(t.split("/").pop()!));
+
+/**
+ * The entity the page is about: the one matching og:type, else the first
+ * Product / Article, else the first entity that is not site-wide.
+ */
+function primaryEntity(hints: StructuredHints): Record<string, unknown> | null {
+  const entities = [...hints.json_ld, ...hints.microdata];
+  const ogType = hints.opengraph["og:type"] ? normalizeKey(hints.opengraph["og:type"].split(".").pop()!) : null;
+
+  return (ogType ? entities.find((e) => typesOf(e).includes(ogType)) : undefined) ??
+    PRIMARY_TYPES.map((type) => entities.find((e) => typesOf(e).includes(type))).find(Boolean) ??
+    entities.find((e) => !typesOf(e).some((type) => SITE_TYPES.includes(type))) ??
+    null;
+}
+
+/** First-wins flat view of the primary entity: nested values (offers.price, author.name) surface under their own key. */
+function flattenHints(hints: StructuredHints): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  const visit = (entity: Record<string, unknown>, depth: number) => {
+    for (const [key, raw] of Object.entries(entity)) {
+      if (key.startsWith("@")) continue;
+      const value = Array.isArray(raw) && raw.length > 0 && isPlainObject(raw[0]) ? raw[0] : raw;
+      const normalized = normalizeKey(key);
+
+      if (isPlainObject(value)) {
+        const label = value.name ?? value["@value"] ?? value.url;
+        if (label !== undefined && !(normalized in flat)) flat[normalized] = label;
+        if (depth < 3) visit(value, depth + 1);
+      } else if (value !== null && value !== "" && !(normalized in flat)) {
+        flat[normalized] = value;
+      }
+    }
+  };
+
+  const primary = primaryEntity(hints);
+  if (primary) visit(primary, 0);
+
+  for (const [key, value] of Object.entries(hints.opengraph)) {
+    const normalized = normalizeKey(key.replace(/^(og|article|product|twitter):/, "").replace(/:amount$/, ""));
+    if (!(normalized in flat)) flat[normalized] = value;
+  }
+  return flat;
+}
+
+/** Resolves leaf fields from the hints; fields with nested children are left to other passes. */
+export function resolveFromHints(hints: StructuredHints, fields: FieldSpec[]): HintResolution {
+  const flat = flattenHints(hints);
+  const data: Record<string, unknown> = {};
+  const resolved: string[] = [];
+
+  for (const field of fields) {
+    if (field.children?.length || field.type === "object") continue;
+
+    const key = normalizeKey(field.key);
+    const candidate = [key, ...(ALIASES[key] ?? [])]
+      .map((k) => flat[k])
+      .find((v) => v !== undefined && v !== null && v !== "" && !isPlainObject(v));
+    if (candidate === undefined) continue;
+
+    data[field.key] = field.type === "array" || !Array.isArray(candidate) ? candidate : candidate[0];
+    resolved.push(field.key);
+  }
+
+  return { data, resolved };
+}
+
+export const hasHints = (hints: StructuredHints) =>
+  hints.json_ld.length > 0 || hints.microdata.length > 0 || Object.keys(hints.opengraph).length > 0;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "@jest/globals";
+import { validateAgainstSchema } from "./validation.ts";
+
+const coerceNumber = (value: unknown) => {
+  const result = validateAgainstSchema({ value }, [{ key: "value", type: "number" }]);
+  return result.success ? result.data.value : result.report.issues;
+};
+
+describe("validateAgainstSchema", () => {
+  it.each([
+    ["$1,299.00", 1299],
+    ["1.299,00 kr", 1299],
+    ["1.299.000", 1299000],
+    ["12,50 €", 12.5],
+    ["0,125", 0.125],
+    ["12.500", 12.5],
+    ["0.125", 0.125],
+    ["-42", -42],
+  ])("reads %j as %d", (text, expected) => {
+    expect(coerceNumber(text)).toBe(expected);
+  });
+
+  it("reports text that is not a number", () => {
+    expect(coerceNumber("call for price")).toEqual([
+      expect.objectContaining({ field: "value", problem: "mistyped", expected: "number" }),
+    ]);
+  });
+
+  it("coerces booleans, strings and single values into arrays", () => {
+    const result = validateAgainstSchema(
+      { inStock: "yes", sku: 123, tags: "sale" },
+      [{ key: "inStock", type: "boolean" }, { key: "sku", type: "string" }, { key: "tags", type: "array" }],
+    );
+
+    expect(result.success && result.data).toEqual({ inStock: true, sku: "123", tags: ["sale"] });
+    expect(result.report.coerced).toEqual(["inStock", "sku", "tags"]);
+  });
+
+  it("reports missing required fields and accepts missing optional ones", () => {
+    const result = validateAgainstSchema(
+      { title: "" },
+      [{ key: "title", type: "string", required: true }, { key: "price", type: "number" }],
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.report.issues).toEqual([expect.objectContaining({ field: "title", problem: "missing" })]);
+  });
+
+  it("validates nested array items", () => {
+    const result = validateAgainstSchema(
+      { items: [{ price: "$5" }, { price: "n/a" }] },
+      [{ key: "items", type: "array", children: [{ key: "price", type: "number" }] }],
+    );
+
+    expect(result.report.issues).toEqual([expect.objectContaining({ field: "items.1.price", problem: "mistyped" })]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * 🛡️ APEXSCRAPE: TYPED OUTPUT VALIDATOR
+ * ============================================================================
+ * Compiles the normalized target schema into a zod validator.
+ * - SAFE COERCION: "$1,299.00" → 1299, "yes" → true, scalar → [scalar].
+ * - NESTED SHAPES: Object children and array item shapes compile recursively.
+ * - REPORTING: Missing/mistyped fields are returned as a structured report
+ *   that the engine persists into scraping_logs.metadata.
+ * ============================================================================
+ */
+
+import { z } from "zod";
+import type { FieldSpec, FieldType } from "./schema.ts";
+
+export interface ValidationIssue {
+  field: string;
+  problem: "missing" | "mistyped";
+  expected: string;
+  received: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+  coerced: string[];
+}
+
+export type ValidationResult =
+  | { success: true; data: Record<string, unknown>; report: ValidationReport }
+  | { success: false; report: ValidationReport };
+
+// Prefix/suffix of at most 4 non-digit characters: "$", "USD ", " kr", "€".
+const NUMERIC_TEXT = /^\s*[^\d.\-]{0,4}?\s*(-?[\d.,]*\d)\s*[^\d]{0,4}\s*$/;
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const match = value.match(NUMERIC_TEXT);
+  if (!match) return value;
+
+  let digits = match[1];
+  if (/^-?[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/.test(digits)) {
+    digits = digits.replace(/,/g, ""); // 1,299.00
+  } else if (/^-?[1-9]\d{0,2}(\.\d{3})+(,\d+)?$/.test(digits) && /,|\..*\./.test(digits)) {
+    // Dots are thousands only beside a decimal comma or when repeated
+    // (1.299,00 / 1.299.000); "12.500" and "0.125" stay decimals.
+    digits = digits.replace(/\./g, "").replace(",", ".");
+  } else if (/^-?(\d+,\d{1,2}|0,\d+)$/.test(digits)) {
+    digits = digits.replace(",", "."); // 12,50 / 0,125
+  }
+
+  const parsed = Number(digits);
+  return Number.isFinite(parsed) ? parsed : value;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (value === 1 || value === 0) return value === 1;
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "1"].includes(normalized)) return true;
+  if (["false", "no", "0"].includes(normalized)) return false;
+  return value;
+}
+
+const COERCERS: Record<FieldType, (value: unknown) => unknown> = {
+  string: (value) =>
+    typeof value === "number" || typeof value === "boolean" ? String(value) : value,
+  number: toNumber,
+  boolean: toBoolean,
+  array: (value) => (Array.isArray(value) ? value : [value]),
+  object: (value) => value,
+};
+
+const BASE_TYPES: Record<FieldType, z.ZodTypeAny> = {
+  string: z.string(),
+  number: z.number(),
+  boolean: z.boolean(),
+  array: z.array(z.unknown()),
+  object: z.record(z.unknown()),
+};
+
+function compileShape(
+  fields: FieldSpec[],
+  coerced: Set<string>,
+  prefix: string,
+): z.ZodObject<z.ZodRawShape, "passthrough"> {
+  const shape = Object.fromEntries(
+    fields.map((field) => [field.key, compileField(field, coerced, `${prefix}${field.key}`)]),
+  );
+  return z.object(shape).passthrough();
+}
+
+function compileField(field: FieldSpec, coerced: Set<string>, path: string): z.ZodTypeAny {
+  if (!field.type && !field.children?.length) return z.unknown();
+
+  const type: FieldType = field.type ?? "object";
+  let schema: z.ZodTypeAny = BASE_TYPES[type];
+  if (field.children?.length) {
+    schema = type === "array"
+      ? z.array(compileShape(field.children, coerced, `${path}[].`))
+      : compileShape(field.children, coerced, `${path}.`);
+  }
+
+  const coerce = COERCERS[type];
+  const base = field.required ? schema : schema.nullable().optional();
+
+  return z.preprocess((value) => {
+    if (value === undefined || value === null || value === "") return undefined;
+    const next = coerce(value);
+    if (next !== value) coerced.add(path);
+    return next;
+  }, base);
+}
+
+export function validateAgainstSchema(
+  data: Record<string, unknown>,
+  fields: FieldSpec[],
+): ValidationResult {
+  const coerced = new Set<string>();
+  const parsed = compileShape(fields, coerced, "").safeParse(data);
+
+  if (parsed.success) {
+    return {
+      success: true,
+      data: parsed.data,
+      report: { valid: true, issues: [], coerced: [...coerced] },
+    };
+  }
+
+  const issues: ValidationIssue[] = parsed.error.issues.map((issue) => {
+    const received = issue.code === "invalid_type" ? issue.received : typeof data[String(issue.path[0])];
+    const missing = received === "undefined" || received === "null";
+    return {
+      field: issue.path.join("."),
+      problem: missing ? "missing" : "mistyped",
+      expected: issue.code === "invalid_type" ? issue.expected : "valid value",
+      received,
+      message: issue.message,
+    };
+  });
+
+  return { success: false, report: { valid: false, issues, coerced: [...coerced] } };
+}
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * ⚙️ APEXSCRAPE: QUEUE WORKER
+ * ============================================================================
+ * Drains pending scraping_jobs into scrape-engine. Invoked every minute by
+ * pg_cron and kicked by the app right after it enqueues a job.
+ * - SCHEDULE: due recurring scrapers (scrapers.schedule) are enqueued first
+ *   (see schedules.ts).
+ * - RECLAIM: running jobs whose lease expired (crashed invocation) go back
+ *   to pending; after QUEUE_MAX_RECLAIMS they fail.
+ * - CLAIM: claim_scraping_jobs() takes due jobs with FOR UPDATE SKIP LOCKED
+ *   under the per-user concurrency limit (public.queue_limits) and leases
+ *   them to this worker for QUEUE_VISIBILITY_S seconds.
+ * - DISPATCH: one scrape-engine invocation per claimed job.
+ * ============================================================================
+ */
+
+import { serve } from "std/http/server.ts";
+import { createClient } from "supabase";
+import { callerUserId, isServiceCall } from "../_shared/auth.ts";
+import { visibilityTimeoutS } from "../_shared/queue.ts";
+import { enqueueDueScrapers } from "./schedules.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ClaimedJob = { id: string };
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("CRITICAL: Missing API Keys");
+    return new Response(
+      JSON.stringify({ error: "Server Config Error: Missing Keys" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // pg_cron and the engine send the service-role key; the app kicks with the user's session.
+  if (!isServiceCall(req) && !(await callerUserId(supabase, req))) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  const workerId = crypto.randomUUID();
+
+  try {
+    // 1. ENQUEUE DUE SCHEDULES
+    const scheduled = await enqueueDueScrapers(supabase);
+
+    // 2. RECLAIM EXPIRED LEASES
+    const { data: reclaimed, error: reclaimError } = await supabase.rpc("reclaim_expired_jobs", {
+      p_max_reclaims: Number(Deno.env.get("QUEUE_MAX_RECLAIMS") ?? 3),
+    });
+    if (reclaimError) throw reclaimError;
+
+    // 3. CLAIM
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_scraping_jobs", {
+      p_worker: workerId,
+      p_limit: Number(Deno.env.get("QUEUE_BATCH_SIZE") ?? 5),
+      p_visibility_s: visibilityTimeoutS(),
+    });
+    if (claimError) throw claimError;
+
+    const jobs = (claimed ?? []) as ClaimedJob[];
+    console.log(
+      `[WORKER] ${workerId}: scheduled ${scheduled.enqueued} (skipped ${scheduled.skipped}), ` +
+        `reclaimed ${reclaimed ?? 0}, claimed ${jobs.length}.`,
+    );
+
+    // 4. DISPATCH (a job whose invocation never starts is reclaimed once its lease expires)
+    const runs = jobs.map((job) =>
+      supabase.functions.invoke("scrape-engine", {
+        // The engine loads the rest of the job itself.
+        body: { job_id: job.id, worker_id: workerId },
+      })
+    );
+    (globalThis as any).EdgeRuntime?.waitUntil(Promise.allSettled(runs));
+
+    return new Response(
+      JSON.stringify({
+        worker_id: workerId,
+        scheduled,
+        reclaimed: reclaimed ?? 0,
+        claimed: jobs.map((job) => job.id),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (err: any) {
+    console.error(`[WORKER] ${workerId}: ${err.message}`);
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
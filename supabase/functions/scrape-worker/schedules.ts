@@ -0,0 +1,104 @@
+/**
+ * ============================================================================
+ * ⏰ APEXSCRAPE: RECURRING SCHEDULES
+ * ============================================================================
+ * Runs at the start of every worker tick and enqueues due scrapers:
+ * - DUE: status "active" and next_run_at <= now (paused scrapers are skipped).
+ * - ADVANCE: next_run_at moves to the following run, guarded on its old
+ *   value, so only one of several concurrent workers enqueues a given run.
+ * - OVERLAP: a run is skipped (and logged) while the scraper still has a
+ *   pending or running job; the schedule still advances.
+ * ============================================================================
+ */
+
+import type { SupabaseClient } from "supabase";
+import { nextRun, normalizeSchedule } from "../_shared/schedule.ts";
+
+/** Scrapers handled per tick; the rest stay due for the next one. */
+const SCHEDULE_BATCH = 100;
+
+type DueScraper = {
+  id: string;
+  user_id: string;
+  target_url: string;
+  extraction_schema: unknown;
+  schedule: unknown;
+  next_run_at: string;
+};
+
+export async function enqueueDueScrapers(
+  supabase: SupabaseClient,
+  now = new Date(),
+): Promise<{ enqueued: number; skipped: number }> {
+  const { data, error } = await supabase
+    .from("scrapers")
+    .select("id, user_id, target_url, extraction_schema, schedule, next_run_at")
+    .eq("status", "active")
+    .lte("next_run_at", now.toISOString())
+    .order("next_run_at")
+    .limit(SCHEDULE_BATCH);
+  if (error) throw error;
+
+  let enqueued = 0;
+  let skipped = 0;
+
+  for (const scraper of (data ?? []) as DueScraper[]) {
+    // An invalid or never-firing schedule clears next_run_at and stops here.
+    const spec = normalizeSchedule(scraper.schedule);
+    const next = spec ? nextRun(spec, now) : null;
+
+    const { data: advanced, error: advanceError } = await supabase
+      .from("scrapers")
+      .update({ next_run_at: next?.toISOString() ?? null })
+      .eq("id", scraper.id)
+      .eq("next_run_at", scraper.next_run_at)
+      .select("id");
+    if (advanceError) throw advanceError;
+    if (!advanced?.length) continue; // another worker took this run
+
+    const log = (level: string, message: string, metadata: Record<string, unknown> = {}) =>
+      supabase.from("scraping_logs").insert({
+        user_id: scraper.user_id,
+        scraper_id: scraper.id,
+        level,
+        message,
+        metadata: { ...metadata, scheduled_for: scraper.next_run_at, next_run_at: next?.toISOString() ?? null },
+      });
+
+    if (!spec) {
+      await log("warn", "Schedule is invalid; scheduled runs stopped.");
+      continue;
+    }
+
+    const { count, error: activeError } = await supabase
+      .from("scraping_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("scraper_id", scraper.id)
+      .in("status", ["pending", "running"]);
+    if (activeError) throw activeError;
+
+    if (count) {
+      await log("warn", "Scheduled run skipped: previous run still in progress.");
+      skipped++;
+      continue;
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("scraping_jobs")
+      .insert({
+        url: scraper.target_url,
+        status: "pending",
+        target_schema: scraper.extraction_schema,
+        user_id: scraper.user_id,
+        scraper_id: scraper.id,
+      })
+      .select("id")
+      .single();
+    if (jobError) throw jobError;
+
+    await log("info", "Scheduled run enqueued.", { job_id: job.id });
+    enqueued++;
+  }
+
+  return { enqueued, skipped };
+}
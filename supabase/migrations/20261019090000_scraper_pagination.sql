@@ -0,0 +1,6 @@
+-- Pagination strategy followed by scrape-engine for a scraper.
+-- Shape: { "strategy": "next_link" | "url_template" | "ai",
+--          "selector"?: text, "template"?: text (with {page}), "start_page"?: int,
+--          "max_pages": int }
+alter table public.scrapers
+  add column if not exists pagination jsonb;
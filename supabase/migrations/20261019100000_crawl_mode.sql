@@ -0,0 +1,18 @@
+-- Crawl mode: scrapers.crawl holds the scope, scraping_jobs forms the crawl tree.
+-- Shape: { "seeds": text[], "include": text[], "exclude": text[],
+--          "same_domain": bool, "max_depth": int, "max_pages": int }
+alter table public.scrapers
+  add column if not exists crawl jsonb;
+
+alter table public.scraping_jobs
+  add column if not exists scraper_id uuid references public.scrapers(id) on delete set null,
+  add column if not exists parent_job_id uuid references public.scraping_jobs(id) on delete cascade,
+  add column if not exists crawl_root_id uuid references public.scraping_jobs(id) on delete cascade,
+  add column if not exists depth integer not null default 0;
+
+-- One job per URL per crawl. Non-crawl jobs have a NULL root and never collide.
+alter table public.scraping_jobs
+  add constraint scraping_jobs_crawl_url_key unique (crawl_root_id, url);
+
+create index if not exists scraping_jobs_parent_job_id_idx
+  on public.scraping_jobs (parent_job_id);
@@ -0,0 +1,49 @@
+-- robots.txt compliance for scrape-engine.
+
+-- Sites we have written permission to crawl regardless of robots.txt.
+alter table public.scrapers
+  add column if not exists ignore_robots boolean not null default false;
+
+-- One robots.txt per host, shared by every invocation (24h TTL enforced by the engine).
+create table if not exists public.robots_cache (
+  host text primary key,
+  status integer not null,
+  body text not null default '',
+  fetched_at timestamptz not null default now()
+);
+
+-- Next free Crawl-delay slot per host, shared across concurrent jobs.
+create table if not exists public.host_crawl_slots (
+  host text primary key,
+  next_slot_at timestamptz not null default now()
+);
+
+-- Service role only.
+alter table public.robots_cache enable row level security;
+alter table public.host_crawl_slots enable row level security;
+
+-- Reserves the next slot for p_host and returns when the caller may fetch.
+-- The delay is clamped to 0..60s (the engine's MAX_CRAWL_DELAY_S).
+create or replace function public.claim_crawl_slot(p_host text, p_delay_seconds numeric)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delay interval := make_interval(secs => least(greatest(coalesce(p_delay_seconds, 0), 0), 60));
+  v_next timestamptz;
+begin
+  insert into host_crawl_slots as s (host, next_slot_at)
+  values (p_host, now() + v_delay)
+  on conflict (host) do update
+    set next_slot_at = greatest(s.next_slot_at, now()) + v_delay
+  returning next_slot_at into v_next;
+
+  return v_next - v_delay;
+end;
+$$;
+
+-- Service role only: the engine calls this with the service key.
+revoke execute on function public.claim_crawl_slot(text, numeric) from public, anon, authenticated;
+grant execute on function public.claim_crawl_slot(text, numeric) to service_role;
@@ -0,0 +1,88 @@
+-- Per-domain token buckets shared by every scrape-engine invocation.
+
+-- Jobs deferred by a bucket stay pending until this time.
+alter table public.scraping_jobs
+  add column if not exists next_attempt_at timestamptz;
+
+create index if not exists scraping_jobs_pending_next_attempt_idx
+  on public.scraping_jobs (next_attempt_at)
+  where status = 'pending';
+
+-- User-configured limits. domain is the host without "www.", or '*' for the user's default.
+create table if not exists public.domain_rate_limits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  domain text not null,
+  capacity integer not null default 5 check (capacity > 0),
+  refill_per_minute numeric not null default 30 check (refill_per_minute > 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, domain)
+);
+
+alter table public.domain_rate_limits enable row level security;
+
+create policy "Users manage their own rate limits"
+  on public.domain_rate_limits
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Bucket state (service role only).
+create table if not exists public.domain_buckets (
+  user_id uuid not null,
+  domain text not null,
+  tokens numeric not null,
+  refilled_at timestamptz not null default now(),
+  primary key (user_id, domain)
+);
+
+alter table public.domain_buckets enable row level security;
+
+-- Takes one token from the (user, domain) bucket.
+-- Returns NULL when granted, otherwise when the next token becomes available.
+-- Limits: exact domain row, then the user's '*' row, then 5 tokens / 30 per minute.
+create or replace function public.take_domain_token(p_user_id uuid, p_domain text)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity numeric := 5;
+  v_rate numeric := 30;
+  v_limit record;
+  v_tokens numeric;
+begin
+  select capacity, refill_per_minute into v_limit
+  from domain_rate_limits
+  where user_id = p_user_id and domain in (p_domain, '*')
+  order by (domain = p_domain) desc
+  limit 1;
+
+  if found then
+    v_capacity := v_limit.capacity;
+    v_rate := v_limit.refill_per_minute;
+  end if;
+
+  -- Refill and lock the bucket row in one statement.
+  insert into domain_buckets as b (user_id, domain, tokens, refilled_at)
+  values (p_user_id, p_domain, v_capacity, now())
+  on conflict (user_id, domain) do update
+    set tokens = least(v_capacity, b.tokens + extract(epoch from now() - b.refilled_at) * v_rate / 60),
+        refilled_at = now()
+  returning tokens into v_tokens;
+
+  if v_tokens >= 1 then
+    update domain_buckets
+    set tokens = tokens - 1
+    where user_id = p_user_id and domain = p_domain;
+    return null;
+  end if;
+
+  return now() + make_interval(secs => (1 - v_tokens) * 60 / v_rate);
+end;
+$$;
+
+-- Service role only: callers pass any user's id.
+revoke execute on function public.take_domain_token(uuid, text) from public, anon, authenticated;
+grant execute on function public.take_domain_token(uuid, text) to service_role;
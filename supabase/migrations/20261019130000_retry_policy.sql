@@ -0,0 +1,9 @@
+-- Fetch retry policy for scrape-engine (see functions/scrape-engine/retry.ts).
+-- NULL uses the defaults: 3 attempts, 1s base / 30s max backoff,
+-- retry on 408, 425, 429, 500, 502, 503, 504 and network errors.
+alter table public.scrapers
+  add column if not exists retry_policy jsonb;
+
+-- Fetch attempts spent on the job's target URL, across deferred retries.
+alter table public.scraping_jobs
+  add column if not exists attempts integer not null default 0;
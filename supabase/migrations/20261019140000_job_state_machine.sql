@@ -0,0 +1,40 @@
+-- Job state machine for scraping_jobs (mirrors functions/scrape-engine/state.ts):
+--   pending -> running | failed | cancelled
+--   running -> pending | completed | failed | cancelled
+-- completed, failed and cancelled are terminal.
+alter type public.job_status add value if not exists 'cancelled';
+
+create or replace function public.enforce_job_status_transition()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_from text := coalesce(old.status::text, 'pending');
+  v_to text := coalesce(new.status::text, 'pending');
+begin
+  if tg_op = 'INSERT' then
+    if v_to <> 'pending' then
+      raise exception 'scraping_jobs must be created as pending, not %', v_to
+        using errcode = 'check_violation';
+    end if;
+    return new;
+  end if;
+
+  if v_from = v_to then
+    return new;
+  end if;
+
+  if (v_from = 'pending' and v_to in ('running', 'failed', 'cancelled'))
+    or (v_from = 'running' and v_to in ('pending', 'completed', 'failed', 'cancelled')) then
+    return new;
+  end if;
+
+  raise exception 'Invalid job status transition: % -> %', v_from, v_to
+    using errcode = 'check_violation';
+end;
+$$;
+
+drop trigger if exists scraping_jobs_status_transition on public.scraping_jobs;
+create trigger scraping_jobs_status_transition
+  before insert or update of status on public.scraping_jobs
+  for each row execute function public.enforce_job_status_transition();
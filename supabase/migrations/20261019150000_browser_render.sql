@@ -0,0 +1,5 @@
+-- Headless-browser rendering options, used when scrapers.engine_type is
+-- 'browser' or 'browser:<llm engine>' (see functions/scrape-engine/render.ts).
+-- Shape: { wait_for_selector, network_idle, scroll_to_bottom, timeout_ms }
+alter table public.scrapers
+  add column if not exists render jsonb;
@@ -0,0 +1,5 @@
+-- Ordered interaction steps replayed in the browser before extraction
+-- (see functions/scrape-engine/actions.ts). Each item:
+-- { type: click|type|select|wait|scroll|press, selector?, text?, value?, key?, ms?, optional? }
+alter table public.scrapers
+  add column if not exists actions jsonb not null default '[]'::jsonb;
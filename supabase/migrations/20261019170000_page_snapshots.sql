@@ -0,0 +1,13 @@
+-- Per-page HTML / screenshot snapshots (see functions/scrape-engine/snapshots.ts).
+alter table public.scrapers
+  add column if not exists snapshots boolean not null default false;
+
+-- Private bucket; objects live under <user_id>/<job_id>/.
+insert into storage.buckets (id, name, public)
+values ('snapshots', 'snapshots', false)
+on conflict (id) do nothing;
+
+create policy "Users read their own snapshots"
+  on storage.objects
+  for select
+  using (bucket_id = 'snapshots' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,6 @@
+-- Per-scraper HTTP request profile (see functions/scrape-engine/request.ts).
+-- Shape: { method, headers: [{name, value}], cookies: [{name, value}],
+--          query: [{name, value}], body_type, body, accept_language }
+-- Cookies may hold session tokens: scrapers rows must stay readable by their owner only.
+alter table public.scrapers
+  add column if not exists request_profile jsonb;
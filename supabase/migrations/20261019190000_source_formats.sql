@@ -0,0 +1,6 @@
+-- How scrape-engine parses a scraper's responses (see functions/scrape-engine/sources.ts).
+-- 'auto' follows the Content-Type header; JSON / XML / CSV fields map with `path`
+-- in the extraction schema instead of CSS selectors.
+alter table public.scrapers
+  add column if not exists source_format text not null default 'auto'
+  check (source_format in ('auto', 'html', 'json', 'xml', 'csv'));
@@ -0,0 +1,152 @@
+-- Server-side job queue drained by the scrape-worker edge function.
+
+-- Lease of a running job: the claiming worker, and when the claim expires
+-- if scrape-engine never finishes it (crash, wall-clock limit).
+alter table public.scraping_jobs
+  add column if not exists claimed_by text,
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists reclaims integer not null default 0;
+
+create index if not exists scraping_jobs_running_lease_idx
+  on public.scraping_jobs (lease_expires_at)
+  where status = 'running';
+
+-- Running jobs per user (default 3 without a row).
+create table if not exists public.queue_limits (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  max_concurrent integer not null default 3 check (max_concurrent between 1 and 50),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.queue_limits enable row level security;
+
+create policy "Users manage their own queue limit"
+  on public.queue_limits
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Returns expired leases to the queue; a job that loses its lease
+-- p_max_reclaims times is failed instead. Returns the number of jobs touched.
+create or replace function public.reclaim_expired_jobs(p_max_reclaims integer default 3)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_count integer := 0;
+begin
+  for v_job in
+    select id, user_id, scraper_id, reclaims
+    from scraping_jobs
+    where status = 'running' and lease_expires_at < now()
+    for update skip locked
+  loop
+    if v_job.reclaims + 1 >= p_max_reclaims then
+      update scraping_jobs
+      set status = 'failed', reclaims = reclaims + 1, last_run_at = now()
+      where id = v_job.id;
+
+      insert into scraping_logs (job_id, user_id, scraper_id, level, message, metadata)
+      values (
+        v_job.id, v_job.user_id, v_job.scraper_id, 'error',
+        format('Job failed (timeout): worker lease expired %s times.', v_job.reclaims + 1),
+        jsonb_build_object('error_class', 'timeout', 'reclaims', v_job.reclaims + 1)
+      );
+    else
+      update scraping_jobs
+      set status = 'pending', reclaims = reclaims + 1, claimed_by = null,
+          lease_expires_at = null, next_attempt_at = null
+      where id = v_job.id;
+
+      insert into scraping_logs (job_id, user_id, scraper_id, level, message, metadata)
+      values (
+        v_job.id, v_job.user_id, v_job.scraper_id, 'warn',
+        'Worker lease expired; job returned to the queue.',
+        jsonb_build_object('reclaims', v_job.reclaims + 1)
+      );
+    end if;
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Claims up to p_limit due pending jobs for p_worker, oldest first.
+-- SKIP LOCKED lets concurrent workers pass over each other's rows; the
+-- per-user advisory lock makes the running-count check race-free.
+create or replace function public.claim_scraping_jobs(
+  p_worker text,
+  p_limit integer default 5,
+  p_visibility_s integer default 600
+)
+returns setof public.scraping_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_claimed integer := 0;
+  v_running integer;
+  v_max integer;
+begin
+  for v_job in
+    select id, user_id
+    from scraping_jobs
+    where status = 'pending' and (next_attempt_at is null or next_attempt_at <= now())
+    order by coalesce(next_attempt_at, created_at)
+    limit 500
+    for update skip locked
+  loop
+    exit when v_claimed >= p_limit;
+
+    perform pg_advisory_xact_lock(hashtext('scraping_jobs_queue:' || v_job.user_id::text));
+
+    select count(*) into v_running
+    from scraping_jobs
+    where user_id = v_job.user_id and status = 'running';
+
+    select coalesce((select max_concurrent from queue_limits where user_id = v_job.user_id), 3)
+    into v_max;
+
+    continue when v_running >= v_max;
+
+    return query
+      update scraping_jobs
+      set status = 'running', claimed_by = p_worker, next_attempt_at = null,
+          lease_expires_at = now() + make_interval(secs => p_visibility_s)
+      where id = v_job.id
+      returning *;
+    v_claimed := v_claimed + 1;
+  end loop;
+end;
+$$;
+
+-- Service role only: workers call these with the service key.
+revoke execute on function public.reclaim_expired_jobs(integer) from public, anon, authenticated;
+revoke execute on function public.claim_scraping_jobs(text, integer, integer) from public, anon, authenticated;
+
+-- Drain the queue every minute. Needs the vault secrets 'project_url' and
+-- 'service_role_key'; the app also kicks the worker after enqueueing.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'scrape-worker',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/scrape-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 5000
+  );
+  $$
+);
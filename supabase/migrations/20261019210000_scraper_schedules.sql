@@ -0,0 +1,11 @@
+-- Recurring runs, enqueued by scrape-worker (see functions/_shared/schedule.ts).
+-- Shape: { kind: "cron", cron, timezone } | { kind: "interval", minutes }
+-- next_run_at is null while no run is due (no schedule, or it never fires).
+-- Only status = 'active' scrapers are scheduled; pausing sets 'paused'.
+alter table public.scrapers
+  add column if not exists schedule jsonb,
+  add column if not exists next_run_at timestamptz;
+
+create index if not exists scrapers_next_run_idx
+  on public.scrapers (next_run_at)
+  where status = 'active' and next_run_at is not null;
@@ -0,0 +1,89 @@
+-- Scraper -> job -> data lineage. scraping_jobs.scraper_id exists since the
+-- crawl migration; extracted_data now carries it too, so a scraper's data is
+-- queryable without going through its jobs.
+alter table public.extracted_data
+  add column if not exists scraper_id uuid references public.scrapers (id) on delete set null;
+
+update public.extracted_data d
+set scraper_id = j.scraper_id
+from public.scraping_jobs j
+where d.job_id = j.id and d.scraper_id is null and j.scraper_id is not null;
+
+create index if not exists extracted_data_scraper_id_idx
+  on public.extracted_data (scraper_id, created_at desc);
+
+-- Run history per scraper.
+create index if not exists scraping_jobs_scraper_id_idx
+  on public.scraping_jobs (scraper_id, created_at desc);
+
+-- Status of the scraper's latest run, written by scrape-engine with last_run_at.
+-- scrapers.status stays the scraper's own state (active / paused).
+alter table public.scrapers
+  add column if not exists last_run_status public.job_status;
+
+update public.scrapers s
+set last_run_status = j.status, last_run_at = coalesce(j.last_run_at, s.last_run_at)
+from (
+  select distinct on (scraper_id) scraper_id, status, last_run_at
+  from public.scraping_jobs
+  where scraper_id is not null and parent_job_id is null
+  order by scraper_id, created_at desc
+) j
+where s.id = j.scraper_id;
+
+-- Same as in 20261019200000_job_queue, plus: a root job failed here (its
+-- engine invocation is gone) reports the failure to its scraper.
+create or replace function public.reclaim_expired_jobs(p_max_reclaims integer default 3)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_count integer := 0;
+begin
+  for v_job in
+    select id, user_id, scraper_id, parent_job_id, reclaims
+    from scraping_jobs
+    where status = 'running' and lease_expires_at < now()
+    for update skip locked
+  loop
+    if v_job.reclaims + 1 >= p_max_reclaims then
+      update scraping_jobs
+      set status = 'failed', reclaims = reclaims + 1, last_run_at = now()
+      where id = v_job.id;
+
+      if v_job.scraper_id is not null and v_job.parent_job_id is null then
+        update scrapers
+        set last_run_status = 'failed', last_run_at = now()
+        where id = v_job.scraper_id;
+      end if;
+
+      insert into scraping_logs (job_id, user_id, scraper_id, level, message, metadata)
+      values (
+        v_job.id, v_job.user_id, v_job.scraper_id, 'error',
+        format('Job failed (timeout): worker lease expired %s times.', v_job.reclaims + 1),
+        jsonb_build_object('error_class', 'timeout', 'reclaims', v_job.reclaims + 1)
+      );
+    else
+      update scraping_jobs
+      set status = 'pending', reclaims = reclaims + 1, claimed_by = null,
+          lease_expires_at = null, next_attempt_at = null
+      where id = v_job.id;
+
+      insert into scraping_logs (job_id, user_id, scraper_id, level, message, metadata)
+      values (
+        v_job.id, v_job.user_id, v_job.scraper_id, 'warn',
+        'Worker lease expired; job returned to the queue.',
+        jsonb_build_object('reclaims', v_job.reclaims + 1)
+      );
+    end if;
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.reclaim_expired_jobs(integer) from public, anon, authenticated;
@@ -0,0 +1,92 @@
+-- Per-scraper stage timeouts (see functions/scrape-engine/control.ts).
+-- Shape: { fetch_ms, clean_ms, ai_ms, commit_ms, job_ms }; null = engine defaults.
+alter table public.scrapers
+  add column if not exists timeouts jsonb;
+
+-- Cancels the caller's pending or running jobs, plus the crawl jobs under
+-- any crawl root among them. Running jobs stop at the engine's next
+-- checkpoint. Returns the number of jobs cancelled.
+create or replace function public.cancel_scraping_jobs(p_job_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_count integer := 0;
+begin
+  for v_job in
+    select id, user_id, scraper_id, parent_job_id, status
+    from scraping_jobs
+    where (id = any(p_job_ids) or crawl_root_id = any(p_job_ids))
+      and user_id = auth.uid()
+      and status in ('pending', 'running')
+    for update
+  loop
+    update scraping_jobs
+    set status = 'cancelled', claimed_by = null, lease_expires_at = null,
+        next_attempt_at = null, last_run_at = now()
+    where id = v_job.id;
+
+    if v_job.scraper_id is not null and v_job.parent_job_id is null then
+      update scrapers
+      set last_run_status = 'cancelled', last_run_at = now()
+      where id = v_job.scraper_id;
+    end if;
+
+    insert into scraping_logs (job_id, user_id, scraper_id, level, message, metadata)
+    values (
+      v_job.id, v_job.user_id, v_job.scraper_id, 'warn',
+      case when v_job.status = 'running'
+        then 'Cancel requested; the engine stops at its next checkpoint.'
+        else 'Job cancelled before it started.'
+      end,
+      jsonb_build_object('cancelled', true, 'previous_status', v_job.status)
+    );
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.cancel_scraping_jobs(uuid[]) from public, anon;
+grant execute on function public.cancel_scraping_jobs(uuid[]) to authenticated;
+
+-- Stores a run's extracted pages and completes the job in one transaction,
+-- but only while the job is still running: a cancel that lands after the
+-- engine's last checkpoint leaves no data behind. p_rows is an array of
+-- { content_structured, metadata }. Returns false when the job was no
+-- longer running.
+create or replace function public.complete_scraping_job(p_job_id uuid, p_rows jsonb, p_attempts integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scraper uuid;
+begin
+  select scraper_id into v_scraper
+  from scraping_jobs
+  where id = p_job_id and status = 'running'
+  for update;
+  if not found then
+    return false;
+  end if;
+
+  insert into extracted_data (job_id, scraper_id, content_structured, metadata)
+  select p_job_id, v_scraper, r -> 'content_structured', r -> 'metadata'
+  from jsonb_array_elements(p_rows) as r;
+
+  update scraping_jobs
+  set status = 'completed', attempts = p_attempts, last_run_at = now()
+  where id = p_job_id;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.complete_scraping_job(uuid, jsonb, integer) from public, anon, authenticated;
+grant execute on function public.complete_scraping_job(uuid, jsonb, integer) to service_role;
@@ -0,0 +1,133 @@
+-- Named bulk batches and reusable schema templates for the Bulk Dispatcher.
+
+-- Saved extraction schemas (same shape as scrapers.extraction_schema).
+create table if not exists public.schema_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  schema jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.schema_templates enable row level security;
+
+create policy "Users manage their own schema templates"
+  on public.schema_templates
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- One bulk dispatch. Progress is derived from its jobs; target_schema is the
+-- schema copied onto every job at dispatch time.
+create table if not exists public.scraping_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  source_scraper_id uuid references public.scrapers (id) on delete set null,
+  source_template_id uuid references public.schema_templates (id) on delete set null,
+  target_schema jsonb not null,
+  total integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scraping_batches_user_created_idx
+  on public.scraping_batches (user_id, created_at desc);
+
+alter table public.scraping_batches enable row level security;
+
+create policy "Users read their own batches"
+  on public.scraping_batches
+  for select
+  using (auth.uid() = user_id);
+
+alter table public.scraping_jobs
+  add column if not exists batch_id uuid references public.scraping_batches (id) on delete set null;
+
+create index if not exists scraping_jobs_batch_id_idx
+  on public.scraping_jobs (batch_id, status);
+
+-- The old signature took the schema and user id from the client.
+drop function if exists public.dispatch_bulk_jobs(jsonb, text[], uuid);
+
+-- Creates a batch for the caller and enqueues one pending job per distinct
+-- URL, using the schema of exactly one owned scraper or template.
+-- Returns the batch id.
+create or replace function public.dispatch_bulk_jobs(
+  p_name text,
+  p_urls text[],
+  p_scraper_id uuid default null,
+  p_template_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_schema jsonb;
+  v_urls text[];
+  v_batch uuid;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated';
+  end if;
+  if (p_scraper_id is null) = (p_template_id is null) then
+    raise exception 'Pick exactly one scraper or schema template';
+  end if;
+
+  if p_scraper_id is not null then
+    select extraction_schema into v_schema
+    from scrapers where id = p_scraper_id and user_id = v_user;
+  else
+    select schema into v_schema
+    from schema_templates where id = p_template_id and user_id = v_user;
+  end if;
+  if v_schema is null then
+    raise exception 'Schema source not found';
+  end if;
+
+  select array_agg(distinct u) into v_urls
+  from unnest(p_urls) as u
+  where u ~* '^https?://';
+  if v_urls is null then
+    raise exception 'No valid URLs';
+  end if;
+
+  insert into scraping_batches (user_id, name, source_scraper_id, source_template_id, target_schema, total)
+  values (
+    v_user,
+    coalesce(nullif(trim(p_name), ''), 'Batch ' || to_char(now(), 'YYYY-MM-DD HH24:MI')),
+    p_scraper_id, p_template_id, v_schema, cardinality(v_urls)
+  )
+  returning id into v_batch;
+
+  insert into scraping_jobs (url, status, target_schema, user_id, batch_id)
+  select u, 'pending', v_schema, v_user, v_batch
+  from unnest(v_urls) as u;
+
+  return v_batch;
+end;
+$$;
+
+revoke execute on function public.dispatch_bulk_jobs(text, text[], uuid, uuid) from public, anon;
+grant execute on function public.dispatch_bulk_jobs(text, text[], uuid, uuid) to authenticated;
+
+-- Cancels every pending or running job of one of the caller's batches.
+create or replace function public.cancel_scraping_batch(p_batch_id uuid)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select cancel_scraping_jobs(array(
+    select j.id from scraping_jobs j
+    where j.batch_id = p_batch_id
+      and j.user_id = auth.uid()
+      and j.status in ('pending', 'running')
+  ));
+$$;
+
+revoke execute on function public.cancel_scraping_batch(uuid) from public, anon;
+grant execute on function public.cancel_scraping_batch(uuid) to authenticated;